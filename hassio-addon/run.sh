@@ -35,8 +35,8 @@ mkdir -p /app/config
 # Get MQTT URI
 BROKER_URL=$(get_mqtt_uri)
 
-# Create config.json
-bashio::log.info "Generating config file..."
+# Pass the configuration as HAME_RELAY_* environment variables
+bashio::log.info "Preparing configuration..."
 
 # Get required configuration values
 if ! bashio::config.has_value 'username'; then
@@ -66,56 +66,30 @@ esac
 
 bashio::log.info "Username and password found in configuration."
 
-# Build the config JSON with required fields
-CONFIG_JSON='{
-  "broker_url": $url,
-  "inverse_forwarding": $inverse,
-  "default_broker_id": $default,
-  "username": $username,
-  "password": $password
-}'
+export HAME_RELAY_BROKER_URL="$BROKER_URL"
+export HAME_RELAY_USERNAME="$USERNAME"
+export HAME_RELAY_PASSWORD="$PASSWORD"
+export HAME_RELAY_INVERSE_FORWARDING="$INVERSE_FORWARDING"
+export HAME_RELAY_DEFAULT_BROKER_ID="$DEFAULT_BROKER_ID"
 
 # Check for optional selective forwarding configuration
 if bashio::config.has_value 'inverse_forwarding_device_ids'; then
     INVERSE_FORWARDING_DEVICE_IDS=$(bashio::config 'inverse_forwarding_device_ids')
     bashio::log.info "Selective inverse forwarding device IDs found: $INVERSE_FORWARDING_DEVICE_IDS"
-    
-    # Create config with selective forwarding
-    jq -n \
-      --arg url "$BROKER_URL" \
-      --argjson inverse "$INVERSE_FORWARDING" \
-      --arg default "$DEFAULT_BROKER_ID" \
-      --arg username "$USERNAME" \
-      --arg password "$PASSWORD" \
-      --arg device_ids "$INVERSE_FORWARDING_DEVICE_IDS" \
-      '{
-        broker_url: $url,
-        inverse_forwarding: $inverse,
-        default_broker_id: $default,
-        username: $username,
-        password: $password,
-        inverse_forwarding_device_ids: $device_ids
-      }' > /app/config/config.json
-else
-    # Create config without selective forwarding
-    jq -n \
-      --arg url "$BROKER_URL" \
-      --argjson inverse "$INVERSE_FORWARDING" \
-      --arg default "$DEFAULT_BROKER_ID" \
-      --arg username "$USERNAME" \
-      --arg password "$PASSWORD" \
-      '{
-        broker_url: $url,
-        inverse_forwarding: $inverse,
-        default_broker_id: $default,
-        username: $username,
-        password: $password
-      }' > /app/config/config.json
+    export HAME_RELAY_INVERSE_FORWARDING_DEVICE_IDS="$INVERSE_FORWARDING_DEVICE_IDS"
 fi
 
-bashio::log.info "Configuration file generated successfully."
+bashio::log.info "Configuration prepared successfully."
+
+# Keep the device cache and Hame API session tokens in the add-on's persistent
+# storage so the relay can start from the cache while the Hame API is
+# unreachable, and does not log in again after every restart.
+export DEVICE_CACHE_PATH=/data/device-cache.json
+export TOKEN_CACHE_PATH=/data/token-cache.json
 
 # Start the application
 export LOG_LEVEL
 bashio::log.info "Starting MQTT forwarder..."
-cd /app && node dist/main.js
+# exec so the relay receives SIGTERM from the supervisor and can disconnect
+# cleanly
+cd /app && exec node dist/main.js
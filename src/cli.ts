@@ -0,0 +1,8 @@
+// Entry point for one-off commands (see commands.ts). Stdout carries only the
+// command's output, so logs go to stderr and default to warnings. Both must be
+// set before the logger module is loaded, hence the dynamic import.
+process.env.LOG_DESTINATION ??= "stderr";
+process.env.LOG_LEVEL ??= "warn";
+
+const { runCommand } = await import("./commands.js");
+process.exitCode = await runCommand(process.argv.slice(2));
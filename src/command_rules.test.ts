@@ -0,0 +1,187 @@
+import { test, describe } from "node:test";
+import assert from "node:assert";
+import {
+  evaluateCommand,
+  parsePayloadFields,
+  screenMessage,
+} from "./command_rules.js";
+import { CommandRule, Device } from "./types.js";
+
+describe("parsePayloadFields", () => {
+  test("splits fields on commas and ampersands", () => {
+    assert.deepStrictEqual(
+      [...parsePayloadFields(Buffer.from("cd=4,md=0&url=x=y"))],
+      [
+        ["cd", "4"],
+        ["md", "0"],
+        ["url", "x=y"],
+      ],
+    );
+    assert.strictEqual(parsePayloadFields("garbage").size, 0);
+  });
+});
+
+describe("evaluateCommand", () => {
+  test("allows commands when no rule decides", () => {
+    assert.deepStrictEqual(evaluateCommand([], "HMA-1", "cd=1"), {
+      allowed: true,
+      logged: [],
+    });
+  });
+
+  test("the first matching allow or deny rule decides", () => {
+    const rules: CommandRule[] = [
+      { commands: [1, "13"], action: "allow" },
+      { action: "deny" },
+    ];
+    assert.deepStrictEqual(evaluateCommand(rules, "HMA-1", "cd=01"), {
+      allowed: true,
+      rule: 0,
+      logged: [],
+    });
+    assert.deepStrictEqual(evaluateCommand(rules, "HMA-1", "cd=13,md=0"), {
+      allowed: true,
+      rule: 0,
+      logged: [],
+    });
+    assert.deepStrictEqual(evaluateCommand(rules, "HMA-1", "cd=20"), {
+      allowed: false,
+      rule: 1,
+      logged: [],
+    });
+    assert.strictEqual(evaluateCommand(rules, "HMA-1", "md=0").allowed, false);
+  });
+
+  test("log rules are reported and evaluation continues", () => {
+    const rules: CommandRule[] = [
+      { keys: ["url"], action: "log" },
+      { action: "log" },
+      { keys: ["url"], action: "deny" },
+    ];
+    assert.deepStrictEqual(evaluateCommand(rules, "HMA-1", "cd=1"), {
+      allowed: true,
+      logged: [1],
+    });
+    assert.deepStrictEqual(
+      evaluateCommand(rules, "HMA-1", "cd=9,url=http://x"),
+      { allowed: false, rule: 2, logged: [0, 1] },
+    );
+  });
+
+  test("device_types match by prefix", () => {
+    const rules: CommandRule[] = [
+      { device_types: ["hmj"], commands: [30], action: "deny" },
+    ];
+    assert.strictEqual(evaluateCommand(rules, "HMJ-2", "cd=30").allowed, false);
+    assert.strictEqual(evaluateCommand(rules, "HMA-1", "cd=30").allowed, true);
+  });
+});
+
+describe("screenMessage", () => {
+  const device = (extra: Partial<Device> = {}): Device => ({
+    device_id: "0123456789abcdef01234567",
+    mac: "aabbccddeeff",
+    type: "HMA-1",
+    ...extra,
+  });
+  const fromApp = { isDevice: false, fromCloud: true };
+  const fromDevice = { isDevice: true, fromCloud: false };
+
+  test("read-only drops cloud setting changes and passes status requests", () => {
+    const config = { read_only: true };
+    assert.deepStrictEqual(screenMessage(device(), "cd=1", fromApp, config), {
+      forward: true,
+      logged: [],
+    });
+    assert.deepStrictEqual(
+      screenMessage(device(), "cd=20,md=0", fromApp, config),
+      { forward: false, reason: "read_only", command: "20", logged: [] },
+    );
+    assert.deepStrictEqual(screenMessage(device(), "p1=1", fromApp, config), {
+      forward: false,
+      reason: "read_only",
+      command: undefined,
+      logged: [],
+    });
+  });
+
+  test("read-only passes local App commands", () => {
+    assert.deepStrictEqual(
+      screenMessage(
+        device(),
+        "cd=20,md=0",
+        { ...fromApp, fromCloud: false },
+        { read_only: true },
+      ),
+      { forward: true, logged: [] },
+    );
+  });
+
+  test("read-only passes device replies", () => {
+    assert.strictEqual(
+      screenMessage(device(), "cd=20,pe=80", fromDevice, { read_only: true })
+        .forward,
+      true,
+    );
+  });
+
+  test("a device's read_only overrides the global setting", () => {
+    assert.strictEqual(
+      screenMessage(device({ read_only: false }), "cd=20", fromApp, {
+        read_only: true,
+      }).forward,
+      true,
+    );
+    assert.strictEqual(
+      screenMessage(device({ read_only: true }), "cd=20", fromApp, {}).forward,
+      false,
+    );
+  });
+
+  test("command_rules only apply to App commands from the cloud", () => {
+    const config = {
+      command_rules: [
+        { action: "log" },
+        { commands: [20], action: "deny" },
+      ] as CommandRule[],
+    };
+    assert.deepStrictEqual(screenMessage(device(), "cd=20", fromApp, config), {
+      forward: false,
+      reason: "command_rules",
+      rule: 1,
+      logged: [0],
+    });
+    assert.deepStrictEqual(screenMessage(device(), "cd=1", fromApp, config), {
+      forward: true,
+      logged: [0],
+    });
+    assert.deepStrictEqual(
+      screenMessage(
+        device(),
+        "cd=20",
+        { ...fromApp, fromCloud: false },
+        config,
+      ),
+      { forward: true, logged: [] },
+    );
+    assert.deepStrictEqual(
+      screenMessage(
+        device(),
+        "cd=20",
+        { ...fromDevice, fromCloud: true },
+        config,
+      ),
+      { forward: true, logged: [] },
+    );
+  });
+
+  test("read-only is checked before command_rules", () => {
+    assert.deepStrictEqual(
+      screenMessage(device(), "cd=20", fromApp, {
+        read_only: true,
+        command_rules: [{ action: "allow" }],
+      }),
+      { forward: false, reason: "read_only", command: "20", logged: [] },
+    );
+  });
+});
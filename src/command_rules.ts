@@ -0,0 +1,143 @@
+import { isStatusCommand, normalizeType } from "./device_matrix.js";
+import { parseCommandCode } from "./request_tracker.js";
+import { CommandRule, Device, ForwarderConfig } from "./types.js";
+
+export interface CommandDecision {
+  allowed: boolean;
+  /** Index of the rule that allowed or denied the command, if any. */
+  rule?: number;
+  /** Indexes of matching `log` rules. */
+  logged: number[];
+}
+
+/** Splits a Hame payload such as `cd=4,md=0` into its fields. */
+export function parsePayloadFields(
+  message: Buffer | string,
+): Map<string, string> {
+  const text =
+    typeof message === "string" ? message : message.toString("latin1");
+  const fields = new Map<string, string>();
+  for (const part of text.split(/[,&]/)) {
+    const separator = part.indexOf("=");
+    if (separator > 0) {
+      fields.set(
+        part.substring(0, separator).trim(),
+        part.substring(separator + 1).trim(),
+      );
+    }
+  }
+  return fields;
+}
+
+/** `"01"` and `"1"` are the same command. */
+function sameCode(a: string, b: string): boolean {
+  return a === b || (/^\d+$/.test(a) && /^\d+$/.test(b) && +a === +b);
+}
+
+function ruleMatches(
+  rule: CommandRule,
+  type: string,
+  fields: Map<string, string>,
+): boolean {
+  if (
+    rule.device_types &&
+    !rule.device_types.some((family) => type.startsWith(normalizeType(family)))
+  ) {
+    return false;
+  }
+  if (rule.commands) {
+    const code = fields.get("cd");
+    if (
+      code === undefined ||
+      !rule.commands.some((command) => sameCode(String(command), code))
+    ) {
+      return false;
+    }
+  }
+  if (rule.keys && !rule.keys.some((key) => fields.has(key))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Evaluates `rules` in order for a command sent to a device of `type`. The
+ * first matching `allow` or `deny` rule decides; `log` rules before it are
+ * reported and evaluation continues. Commands no rule decides are allowed.
+ */
+export function evaluateCommand(
+  rules: CommandRule[],
+  type: string,
+  message: Buffer | string,
+): CommandDecision {
+  const fields = parsePayloadFields(message);
+  const normalized = normalizeType(type);
+  const logged: number[] = [];
+  for (const [index, rule] of rules.entries()) {
+    if (!ruleMatches(rule, normalized, fields)) {
+      continue;
+    }
+    if (rule.action === "log") {
+      logged.push(index);
+      continue;
+    }
+    return { allowed: rule.action === "allow", rule: index, logged };
+  }
+  return { allowed: true, logged };
+}
+
+/** Where a message the forwarder received comes from. */
+export interface MessageOrigin {
+  /** Sent by the device rather than the App. */
+  isDevice: boolean;
+  /** Received from the Hame broker rather than the local one. */
+  fromCloud: boolean;
+}
+
+/** Whether a message is forwarded, and why not. */
+export type ScreenResult =
+  | { forward: true; logged: number[] }
+  | {
+      forward: false;
+      reason: "read_only";
+      command?: string;
+      logged: number[];
+    }
+  | { forward: false; reason: "command_rules"; rule: number; logged: number[] };
+
+/**
+ * Decides whether a message for `device` is forwarded. Device messages and
+ * local App commands always pass. App commands from the cloud to a read-only
+ * device (`read_only` per device, else from the config) only pass if they are
+ * status requests; the others are then checked against `command_rules`.
+ */
+export function screenMessage(
+  device: Device,
+  message: Buffer | string,
+  origin: MessageOrigin,
+  config: Pick<ForwarderConfig, "read_only" | "command_rules">,
+): ScreenResult {
+  if (origin.isDevice || !origin.fromCloud) {
+    return { forward: true, logged: [] };
+  }
+  const command = parseCommandCode(message);
+  if (
+    (device.read_only ?? config.read_only) &&
+    !isStatusCommand(device.type, command)
+  ) {
+    return { forward: false, reason: "read_only", command, logged: [] };
+  }
+  const rules = config.command_rules;
+  if (!rules || rules.length === 0) {
+    return { forward: true, logged: [] };
+  }
+  const decision = evaluateCommand(rules, device.type, message);
+  return decision.allowed
+    ? { forward: true, logged: decision.logged }
+    : {
+        forward: false,
+        reason: "command_rules",
+        rule: decision.rule!,
+        logged: decision.logged,
+      };
+}
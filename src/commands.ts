@@ -0,0 +1,35 @@
+import { logger } from "./logger.js";
+import { runExplain } from "./explain.js";
+import { runTopicId } from "./topic_id.js";
+
+const USAGE = `Usage: node dist/cli.js <command>
+
+Commands:
+  explain   Print the resolved relay plan as JSON without connecting to any broker
+  topic-id  Print every candidate remote topic id for one device
+            --type <type> --mac <mac> [--version <fw>] [--salt <salt,salt>]
+            [--broker <broker id>] [--device-id <id>]`;
+
+/** Runs a CLI command and resolves to the process exit code. */
+export async function runCommand(args: string[]): Promise<number> {
+  const [command, ...rest] = args;
+  try {
+    switch (command) {
+      case "explain":
+        return await runExplain();
+      case "topic-id":
+        return runTopicId(rest);
+      case undefined:
+      case "help":
+      case "--help":
+        console.log(USAGE);
+        return command === undefined ? 1 : 0;
+      default:
+        console.error(`Unknown command: ${command}\n\n${USAGE}`);
+        return 1;
+    }
+  } catch (error) {
+    logger.error(error, `Command ${command} failed`);
+    return 1;
+  }
+}
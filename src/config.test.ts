@@ -0,0 +1,222 @@
+import { test, describe, afterEach } from "node:test";
+import assert from "node:assert";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  applyEnvironment,
+  hasEnvironmentConfig,
+  loadConfiguration,
+  processConfigProperties,
+} from "./config.js";
+
+function configDir(files: Record<string, string> = {}): string {
+  const dir = mkdtempSync(join(tmpdir(), "hame-relay-"));
+  for (const [name, content] of Object.entries(files)) {
+    writeFileSync(join(dir, name), content);
+  }
+  return dir;
+}
+
+describe("processConfigProperties", () => {
+  afterEach(() => {
+    delete process.env.HAME_RELAY_TEST_USER;
+  });
+
+  test("loads @file references relative to config.json", () => {
+    const dir = configDir({ "password.txt": "secret\n" });
+    const files: string[] = [];
+    const config = processConfigProperties(
+      {
+        broker_url: "mqtt://localhost",
+        username: "user@example.com",
+        password: "@password.txt",
+      },
+      join(dir, "config.json"),
+      files,
+    );
+    assert.strictEqual(config.password, "secret");
+    assert.deepStrictEqual(files, [join(dir, "password.txt")]);
+  });
+
+  test("substitutes environment variables, also in nested fields", () => {
+    process.env.HAME_RELAY_TEST_USER = "second@example.com";
+    const dir = configDir();
+    const config = processConfigProperties(
+      {
+        broker_url: "mqtt://localhost",
+        accounts: [{ username: "${HAME_RELAY_TEST_USER}", password: "pw" }],
+      },
+      join(dir, "config.json"),
+    );
+    assert.strictEqual(config.accounts![0].username, "second@example.com");
+  });
+
+  test("fails for unset environment variables", () => {
+    assert.throws(
+      () =>
+        processConfigProperties(
+          { broker_url: "mqtt://localhost", password: "${HAME_RELAY_UNSET}" },
+          join(configDir(), "config.json"),
+        ),
+      /HAME_RELAY_UNSET referenced by config.password is not set/,
+    );
+  });
+
+  test("@@ and $${ escape literal values", () => {
+    const config = processConfigProperties(
+      { broker_url: "mqtt://localhost", password: "@@pa$${ss}" },
+      join(configDir(), "config.json"),
+    );
+    assert.strictEqual(config.password, "@pa${ss}");
+  });
+
+  test("leaves non-string values untouched", () => {
+    const config = processConfigProperties(
+      {
+        broker_url: "mqtt://localhost",
+        inverse_forwarding: true,
+        device_refresh_interval_minutes: 5,
+      },
+      join(configDir(), "config.json"),
+    );
+    assert.strictEqual(config.inverse_forwarding, true);
+    assert.strictEqual(config.device_refresh_interval_minutes, 5);
+  });
+});
+
+describe("applyEnvironment", () => {
+  const base = { broker_url: "mqtt://file", password: "inline" };
+
+  test("environment variables take precedence over config.json", () => {
+    const config = applyEnvironment(base, [], {
+      HAME_RELAY_BROKER_URL: "mqtt://env",
+      HAME_RELAY_INVERSE_FORWARDING: "true",
+      HAME_RELAY_DEVICE_REFRESH_INTERVAL_MINUTES: "15",
+      HAME_RELAY_API_FALLBACK_URLS: "https://a.example, https://b.example",
+      HAME_RELAY_ACCOUNTS: '[{"username":"b@example.com","password":"pb"}]',
+    });
+    assert.deepStrictEqual(config, {
+      broker_url: "mqtt://env",
+      password: "inline",
+      inverse_forwarding: true,
+      device_refresh_interval_minutes: 15,
+      api_fallback_urls: ["https://a.example", "https://b.example"],
+      accounts: [{ username: "b@example.com", password: "pb" }],
+    });
+  });
+
+  test("forward_telemetry accepts a boolean or a list of families", () => {
+    assert.strictEqual(
+      applyEnvironment(base, [], { HAME_RELAY_FORWARD_TELEMETRY: "yes" })
+        .forward_telemetry,
+      true,
+    );
+    assert.deepStrictEqual(
+      applyEnvironment(base, [], { HAME_RELAY_FORWARD_TELEMETRY: "HMA,HMJ" })
+        .forward_telemetry,
+      ["HMA", "HMJ"],
+    );
+  });
+
+  test("reads HAME_RELAY_<FIELD>_FILE", () => {
+    const dir = configDir({ secret: "from-file\n" });
+    const files: string[] = [];
+    const config = applyEnvironment(base, files, {
+      HAME_RELAY_PASSWORD_FILE: join(dir, "secret"),
+    });
+    assert.strictEqual(config.password, "from-file");
+    assert.deepStrictEqual(files, [join(dir, "secret")]);
+  });
+
+  test("rejects both forms of the same field", () => {
+    assert.throws(
+      () =>
+        applyEnvironment(base, [], {
+          HAME_RELAY_PASSWORD: "a",
+          HAME_RELAY_PASSWORD_FILE: "/run/secrets/b",
+        }),
+      /Set either HAME_RELAY_PASSWORD or HAME_RELAY_PASSWORD_FILE/,
+    );
+  });
+
+  test("rejects malformed values", () => {
+    assert.throws(
+      () => applyEnvironment(base, [], { HAME_RELAY_INVERSE_FORWARDING: "x" }),
+      /HAME_RELAY_INVERSE_FORWARDING must be true or false/,
+    );
+    assert.throws(
+      () =>
+        applyEnvironment(base, [], {
+          HAME_RELAY_API_REQUEST_TIMEOUT_MS: "10s",
+        }),
+      /must be a number/,
+    );
+    assert.throws(
+      () => applyEnvironment(base, [], { HAME_RELAY_API_RETRY: "{" }),
+      /HAME_RELAY_API_RETRY must be valid JSON/,
+    );
+  });
+
+  test("empty variables count as unset", () => {
+    const env = { HAME_RELAY_BROKER_URL: "" };
+    assert.strictEqual(hasEnvironmentConfig(env), false);
+    assert.deepStrictEqual(applyEnvironment(base, [], env), base);
+  });
+});
+
+describe("loadConfiguration", () => {
+  afterEach(() => {
+    delete process.env.HAME_RELAY_BROKER_URL;
+  });
+
+  test("works without config.json when the environment is set", () => {
+    const dir = configDir({ "brokers.json": "{}" });
+    process.env.HAME_RELAY_BROKER_URL = "mqtt://env";
+    const { config, files } = loadConfiguration(
+      join(dir, "config.json"),
+      join(dir, "brokers.json"),
+    );
+    assert.strictEqual(config.broker_url, "mqtt://env");
+    assert.ok(files.includes(join(dir, "config.json")));
+  });
+
+  test("fails without config.json and environment", () => {
+    const dir = configDir({ "brokers.json": "{}" });
+    assert.throws(
+      () =>
+        loadConfiguration(join(dir, "config.json"), join(dir, "brokers.json")),
+      /not found and no HAME_RELAY_\* environment variables are set/,
+    );
+  });
+
+  test("requires broker_url", () => {
+    const dir = configDir({ "config.json": "{}", "brokers.json": "{}" });
+    assert.throws(
+      () =>
+        loadConfiguration(join(dir, "config.json"), join(dir, "brokers.json")),
+      /config\.broker_url: is required/,
+    );
+  });
+
+  test("reports every validation problem at once", () => {
+    const dir = configDir({
+      "config.json": JSON.stringify({
+        broker_url: "mqtt://localhost",
+        inverse_fowarding: true,
+        default_broker_id: "missing",
+      }),
+      "brokers.json": JSON.stringify({
+        b1: { url: "mqtts://b1", ca: "ca", cert: "cert", key: "key" },
+      }),
+    });
+    assert.throws(
+      () =>
+        loadConfiguration(join(dir, "config.json"), join(dir, "brokers.json")),
+      (error: Error) =>
+        error.name === "ConfigValidationError" &&
+        error.message.includes("config.inverse_fowarding") &&
+        error.message.includes("config.default_broker_id"),
+    );
+  });
+});
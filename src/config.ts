@@ -0,0 +1,387 @@
+import { existsSync, readFileSync } from "fs";
+import { join, dirname, resolve } from "path";
+import {
+  ConfigValidationError,
+  validateBrokers,
+  validateConfiguration,
+} from "./config_validation.js";
+import { logger } from "./logger.js";
+import { BrokerDefinition, MainConfig } from "./types.js";
+
+export interface ConfigPaths {
+  configPath: string;
+  brokersPath: string;
+  cachePath: string;
+  /** Only set when `TOKEN_CACHE_PATH` is; tokens are kept in memory otherwise. */
+  tokenCachePath?: string;
+}
+
+/**
+ * File locations from `CONFIG_PATH`, `BROKERS_PATH`, `DEVICE_CACHE_PATH` and
+ * `TOKEN_CACHE_PATH`.
+ */
+export function resolveConfigPaths(): ConfigPaths {
+  const configPath = process.env.CONFIG_PATH || "./config/config.json";
+  return {
+    configPath,
+    brokersPath: process.env.BROKERS_PATH || "./brokers.json",
+    cachePath:
+      process.env.DEVICE_CACHE_PATH ||
+      join(dirname(configPath), "device-cache.json"),
+    tokenCachePath: process.env.TOKEN_CACHE_PATH || undefined,
+  };
+}
+
+export interface LoadedConfig {
+  config: MainConfig;
+  brokers: Record<string, BrokerDefinition>;
+  /**
+   * Every file the configuration was read from: `config.json`, `brokers.json`
+   * and each `@file` reference resolved while processing the brokers. Watched
+   * for hot reloading.
+   */
+  files: string[];
+}
+
+/**
+ * Resolves `@file` references in broker definitions relative to the directory
+ * of `brokers.json`. Each file that was read is appended to `files`.
+ */
+export function processBrokerProperties(
+  brokers: Record<string, BrokerDefinition>,
+  brokersConfigPath: string,
+  files: string[] = [],
+): Record<string, BrokerDefinition> {
+  const processedBrokers: Record<string, BrokerDefinition> = {};
+  const configDir = dirname(brokersConfigPath);
+  for (const [brokerId, broker] of Object.entries(brokers)) {
+    const processedBroker: BrokerDefinition = { ...broker };
+    for (const prop of Object.keys(processedBroker)) {
+      const key = prop as keyof BrokerDefinition;
+      const value = processedBroker[key];
+      if (typeof value === "string" && value.startsWith("@")) {
+        const filePath = value.substring(1);
+        try {
+          const absolutePath = join(configDir, filePath);
+          (processedBroker as any)[key] = readFileSync(
+            absolutePath,
+            "utf8",
+          ).trim();
+          files.push(resolve(absolutePath));
+          logger.debug(`Loaded ${prop} from file: ${absolutePath}`);
+        } catch (error) {
+          logger.error(
+            error,
+            `Failed to load ${prop} from file ${filePath} for broker ${brokerId}`,
+          );
+          throw error;
+        }
+      }
+    }
+    processedBrokers[brokerId] = processedBroker;
+  }
+  return processedBrokers;
+}
+
+const ENV_REFERENCE = /\$(\$?)\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+function readSecretFile(filePath: string, field: string): string {
+  try {
+    return readFileSync(filePath, "utf8").trim();
+  } catch (error) {
+    logger.error(error, `Failed to load ${field} from file ${filePath}`);
+    throw error;
+  }
+}
+
+/**
+ * Substitutes `${NAME}` with the environment variable, then loads the value
+ * from a file if it starts with `@` (relative to `baseDir`). `$${` and a
+ * leading `@@` produce a literal `${` and `@`.
+ */
+function resolveConfigString(
+  value: string,
+  field: string,
+  baseDir: string,
+  files: string[],
+): string {
+  const substituted = value.replace(ENV_REFERENCE, (match, escaped, name) => {
+    if (escaped) {
+      return match.substring(1);
+    }
+    const env = process.env[name];
+    if (env === undefined) {
+      throw new Error(
+        `Environment variable ${name} referenced by ${field} is not set`,
+      );
+    }
+    return env;
+  });
+  if (substituted.startsWith("@@")) {
+    return substituted.substring(1);
+  }
+  if (!substituted.startsWith("@")) {
+    return substituted;
+  }
+  const filePath = resolve(baseDir, substituted.substring(1));
+  const content = readSecretFile(filePath, field);
+  files.push(filePath);
+  logger.debug(`Loaded ${field} from file: ${filePath}`);
+  return content;
+}
+
+function resolveConfigValue(
+  value: unknown,
+  field: string,
+  baseDir: string,
+  files: string[],
+): unknown {
+  if (typeof value === "string") {
+    return resolveConfigString(value, field, baseDir, files);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) =>
+      resolveConfigValue(item, `${field}[${index}]`, baseDir, files),
+    );
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        resolveConfigValue(item, `${field}.${key}`, baseDir, files),
+      ]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Resolves `${ENV}` references and `@file` indirection in every string of
+ * `config.json` (files relative to its directory). Each file that was read is
+ * appended to `files`.
+ */
+export function processConfigProperties(
+  config: MainConfig,
+  configPath: string,
+  files: string[] = [],
+): MainConfig {
+  return resolveConfigValue(
+    config,
+    "config",
+    dirname(configPath),
+    files,
+  ) as MainConfig;
+}
+
+const ENV_PREFIX = "HAME_RELAY_";
+
+type EnvFieldType =
+  | "string"
+  | "boolean"
+  | "number"
+  | "list"
+  | "boolean-or-list"
+  | "json";
+
+/**
+ * How each `config.json` field is read from `HAME_RELAY_<FIELD>`. A complete
+ * record, so every new option has to declare its environment form.
+ */
+const ENV_FIELDS: Record<keyof MainConfig, EnvFieldType> = {
+  broker_url: "string",
+  broker_protocol_version: "number",
+  devices: "json",
+  inverse_forwarding: "boolean",
+  username: "string",
+  password: "string",
+  password_md5: "string",
+  accounts: "json",
+  default_broker_id: "string",
+  api_region: "string",
+  api_base_url: "string",
+  api_fallback_urls: "list",
+  api_retry: "json",
+  api_request_timeout_ms: "number",
+  inverse_forwarding_device_ids: "string",
+  device_refresh_interval_minutes: "number",
+  message_history_max_entries: "number",
+  forward_telemetry: "boolean-or-list",
+  telemetry_interval_seconds: "number",
+  poll_interval_seconds: "number",
+  poll_payload: "string",
+  command_rules: "json",
+  read_only: "boolean",
+  rate_limit: "json",
+};
+
+function envVariable(field: string): string {
+  return `${ENV_PREFIX}${field.toUpperCase()}`;
+}
+
+function parseEnvValue(
+  variable: string,
+  type: EnvFieldType,
+  raw: string,
+): unknown {
+  const value = raw.trim();
+  switch (type) {
+    case "string":
+      return value;
+    case "boolean":
+      if (/^(true|1|yes|on)$/i.test(value)) return true;
+      if (/^(false|0|no|off)$/i.test(value)) return false;
+      throw new Error(`${variable} must be true or false, got "${value}"`);
+    case "number": {
+      const number = Number(value);
+      if (value === "" || isNaN(number)) {
+        throw new Error(`${variable} must be a number, got "${value}"`);
+      }
+      return number;
+    }
+    case "boolean-or-list":
+      if (/^(true|1|yes|on|false|0|no|off)$/i.test(value)) {
+        return parseEnvValue(variable, "boolean", value);
+      }
+      return parseEnvValue(variable, "list", value);
+    case "list":
+      if (value.startsWith("[")) {
+        return parseEnvValue(variable, "json", value);
+      }
+      return value
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean);
+    case "json":
+      try {
+        return JSON.parse(value);
+      } catch (error) {
+        throw new Error(
+          `${variable} must be valid JSON: ${(error as Error).message}`,
+        );
+      }
+  }
+}
+
+/** Whether any `HAME_RELAY_<FIELD>` (or `_FILE`) variable is set. */
+export function hasEnvironmentConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): boolean {
+  return Object.keys(ENV_FIELDS).some(
+    (field) => env[envVariable(field)] || env[`${envVariable(field)}_FILE`],
+  );
+}
+
+/**
+ * Overrides `config` with `HAME_RELAY_<FIELD>` environment variables, or
+ * `HAME_RELAY_<FIELD>_FILE` to read the value from a file (Docker secrets).
+ * Precedence: environment over `config.json`; setting both forms of the same
+ * field is an error. Environment values are taken literally (no `${ENV}` or
+ * `@file` processing). Files that were read are appended to `files`.
+ */
+export function applyEnvironment(
+  config: MainConfig,
+  files: string[] = [],
+  env: NodeJS.ProcessEnv = process.env,
+): MainConfig {
+  const result: MainConfig = { ...config };
+  const known = new Set<string>();
+  for (const [field, type] of Object.entries(ENV_FIELDS)) {
+    const variable = envVariable(field);
+    const fileVariable = `${variable}_FILE`;
+    known.add(variable).add(fileVariable);
+    // Empty values count as unset; compose files often declare blanks.
+    const direct = env[variable] || undefined;
+    const filePath = env[fileVariable] || undefined;
+    if (direct !== undefined && filePath !== undefined) {
+      throw new Error(`Set either ${variable} or ${fileVariable}, not both`);
+    }
+    let raw = direct;
+    if (filePath !== undefined) {
+      const absolutePath = resolve(filePath);
+      raw = readSecretFile(absolutePath, fileVariable);
+      files.push(absolutePath);
+    }
+    if (raw !== undefined) {
+      (result as any)[field] = parseEnvValue(variable, type, raw);
+      logger.debug(
+        `Using ${field} from ${direct !== undefined ? variable : fileVariable}`,
+      );
+    }
+  }
+  for (const name of Object.keys(env)) {
+    if (name.startsWith(ENV_PREFIX) && !known.has(name)) {
+      logger.warn(`Ignoring unknown environment variable ${name}`);
+    }
+  }
+  return result;
+}
+
+/**
+ * Reads `config.json` and `brokers.json` from disk and applies the
+ * `HAME_RELAY_*` environment variables. `config.json` may be missing when the
+ * environment provides the configuration. Throws when a file is malformed so
+ * a failed reload never replaces a working setup, and with a
+ * `ConfigValidationError` listing every problem when the content is invalid.
+ */
+export function loadConfiguration(
+  configPath: string,
+  brokersPath: string,
+): LoadedConfig {
+  // Watched even when missing, so creating it later triggers a reload.
+  const files = [resolve(configPath)];
+  let fileConfig = {} as MainConfig;
+  if (existsSync(configPath)) {
+    const rawConfig = JSON.parse(
+      readFileSync(configPath, "utf8"),
+    ) as MainConfig;
+    fileConfig = processConfigProperties(rawConfig, configPath, files);
+  } else if (hasEnvironmentConfig()) {
+    logger.debug(
+      `No config file at ${configPath}; using environment variables only`,
+    );
+  } else {
+    throw new Error(
+      `Config file ${configPath} not found and no ${ENV_PREFIX}* environment variables are set`,
+    );
+  }
+  const config = applyEnvironment(fileConfig, files);
+  const brokers = readBrokers(brokersPath, files);
+  const issues = validateConfiguration(config, brokers);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return { config, brokers, files };
+}
+
+/**
+ * Reads `brokers.json`, resolves its `@file` references and validates the
+ * result. The paths of all files read are appended to `files`.
+ */
+export function loadBrokers(
+  brokersPath: string,
+  files: string[] = [],
+): Record<string, BrokerDefinition> {
+  const brokers = readBrokers(brokersPath, files);
+  const issues = validateBrokers(brokers);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return brokers;
+}
+
+function readBrokers(
+  brokersPath: string,
+  files: string[],
+): Record<string, BrokerDefinition> {
+  files.push(resolve(brokersPath));
+  try {
+    const rawBrokers = JSON.parse(readFileSync(brokersPath, "utf8")) as Record<
+      string,
+      BrokerDefinition
+    >;
+    return processBrokerProperties(rawBrokers, brokersPath, files);
+  } catch (err) {
+    logger.error(err, `Failed to load brokers config at ${brokersPath}`);
+    throw err;
+  }
+}
@@ -0,0 +1,205 @@
+import { test, describe } from "node:test";
+import assert from "node:assert";
+import {
+  ConfigValidationError,
+  validateBrokers,
+  validateConfiguration,
+} from "./config_validation.js";
+
+const brokers = {
+  "hame-2024": { url: "mqtts://a", ca: "ca", cert: "cert", key: "key" },
+  "hame-2025": {
+    url: "mqtts://b",
+    ca: "ca",
+    cert: "cert",
+    key: "key",
+    topic_encryption_key: "00112233445566778899aabbccddeeff",
+  },
+};
+
+describe("validateConfiguration", () => {
+  test("accepts a valid configuration", () => {
+    const config = {
+      broker_url: "mqtt://localhost",
+      username: "user@example.com",
+      password: "secret",
+      inverse_forwarding: false,
+      default_broker_id: "hame-2025",
+      accounts: [{ username: "b@example.com", password_md5: "x" }],
+      api_retry: { max_retries: 2, jitter: 0.5 },
+      devices: [{ device_id: "0123456789ab", broker_id: "hame-2024" }],
+    };
+    assert.deepStrictEqual(validateConfiguration(config, brokers), []);
+  });
+
+  test("reports types, unknown keys and ranges with their JSON paths", () => {
+    const config = {
+      broker_url: "mqtt://localhost",
+      inverse_forwarding: "yes",
+      inverse_fowarding: true,
+      accounts: [{ password: "secret" }],
+      api_retry: { jitter: 2 },
+      devices: [{ device_id: "0123456789ab", version: "1" }],
+    };
+    assert.deepStrictEqual(validateConfiguration(config, brokers), [
+      {
+        path: "config.inverse_forwarding",
+        message: "expected boolean, got string",
+      },
+      {
+        path: "config.inverse_fowarding",
+        message: 'unknown key (did you mean "inverse_forwarding"?)',
+      },
+      { path: "config.accounts[0].username", message: "is required" },
+      { path: "config.api_retry.jitter", message: "must be between 0 and 1" },
+      {
+        path: "config.devices[0].version",
+        message: "expected number, got string",
+      },
+    ]);
+  });
+
+  test("accepts either form of a boolean-or-list option", () => {
+    const check = (forward_telemetry: unknown) =>
+      validateConfiguration(
+        { broker_url: "mqtt://localhost", forward_telemetry },
+        brokers,
+      );
+    assert.deepStrictEqual(check(true), []);
+    assert.deepStrictEqual(check(["HMA"]), []);
+    assert.deepStrictEqual(check([1]), [
+      {
+        path: "config.forward_telemetry[0]",
+        message: "expected string, got number",
+      },
+    ]);
+    assert.deepStrictEqual(check("HMA"), [
+      {
+        path: "config.forward_telemetry",
+        message: "expected boolean or array, got string",
+      },
+    ]);
+  });
+
+  test("checks command_rules", () => {
+    const issues = validateConfiguration(
+      {
+        broker_url: "mqtt://localhost",
+        command_rules: [
+          { commands: [1, "13"], action: "allow" },
+          { keys: "url", action: "block" },
+          { device_types: ["HMA"] },
+        ],
+      },
+      brokers,
+    );
+    assert.deepStrictEqual(issues, [
+      {
+        path: "config.command_rules[1].keys",
+        message: "expected array, got string",
+      },
+      {
+        path: "config.command_rules[1].action",
+        message: 'must be "allow", "deny" or "log"',
+      },
+      { path: "config.command_rules[2].action", message: "is required" },
+    ]);
+  });
+
+  test("checks rate limits per direction", () => {
+    const issues = validateConfiguration(
+      {
+        broker_url: "mqtt://localhost",
+        rate_limit: {
+          local_to_remote: { messages_per_second: 0.5, burst: 5 },
+          remote_to_local: { messages_per_second: 0, max_delay_ms: -1 },
+        },
+      },
+      brokers,
+    );
+    assert.deepStrictEqual(issues, [
+      {
+        path: "config.rate_limit.remote_to_local.messages_per_second",
+        message: "must be greater than 0",
+      },
+      {
+        path: "config.rate_limit.remote_to_local.max_delay_ms",
+        message: "must be at least 0",
+      },
+    ]);
+  });
+
+  test("checks broker references against brokers.json", () => {
+    const config = {
+      broker_url: "mqtt://localhost",
+      default_broker_id: "hame-2026",
+      devices: [{ device_id: "0123456789ab", broker_id: "other" }],
+    };
+    assert.deepStrictEqual(
+      validateConfiguration(config, brokers).map((issue) => issue.path),
+      ["config.default_broker_id", "config.devices[0].broker_id"],
+    );
+    assert.match(
+      validateConfiguration(config, brokers)[0].message,
+      /broker "hame-2026" is not defined in brokers.json \(known: hame-2024, hame-2025\)/,
+    );
+  });
+
+  test("rejects a configuration that is not an object", () => {
+    assert.deepStrictEqual(validateConfiguration([], brokers), [
+      { path: "config", message: "expected object, got array" },
+    ]);
+  });
+});
+
+describe("validateBrokers", () => {
+  test("requires a 32 hex character topic_encryption_key", () => {
+    const issues = validateBrokers({
+      "hame-2025": { ...brokers["hame-2025"], topic_encryption_key: "abc" },
+    });
+    assert.deepStrictEqual(issues, [
+      {
+        path: 'brokers["hame-2025"].topic_encryption_key',
+        message: "must be 32 hexadecimal characters (a 128-bit AES key)",
+      },
+    ]);
+  });
+
+  test("accepts MQTT protocol versions 3 to 5", () => {
+    const issues = validateBrokers({
+      "hame-2024": { ...brokers["hame-2024"], protocol_version: 5 },
+      local: { ...brokers["hame-2024"], protocol_version: 6 },
+    });
+    assert.deepStrictEqual(issues, [
+      {
+        path: "brokers.local.protocol_version",
+        message: "must be 3 (MQTT 3.1), 4 (MQTT 3.1.1) or 5 (MQTT 5.0)",
+      },
+    ]);
+  });
+
+  test("reports missing fields and unknown keys", () => {
+    const issues = validateBrokers({
+      local: { url: "mqtt://local", ca: "ca", cert: "cert", topic: "x" },
+    });
+    assert.deepStrictEqual(issues, [
+      { path: "brokers.local.topic", message: "unknown key" },
+      { path: "brokers.local.key", message: "is required" },
+    ]);
+  });
+});
+
+describe("ConfigValidationError", () => {
+  test("lists every issue in the message", () => {
+    const error = new ConfigValidationError([
+      { path: "config.a", message: "unknown key" },
+      { path: "config.b", message: "is required" },
+    ]);
+    assert.strictEqual(
+      error.message,
+      "Invalid configuration (2 problems):\n" +
+        "  - config.a: unknown key\n" +
+        "  - config.b: is required",
+    );
+  });
+});
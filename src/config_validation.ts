@@ -0,0 +1,353 @@
+import { BrokerDefinition, MainConfig } from "./types.js";
+
+/** A single problem found in `config.json` or `brokers.json`. */
+export interface ConfigIssue {
+  /** JSON path of the offending value, e.g. `config.devices[0].broker_id`. */
+  path: string;
+  message: string;
+}
+
+/** Thrown with every problem found, so all of them can be fixed at once. */
+export class ConfigValidationError extends Error {
+  constructor(public readonly issues: ConfigIssue[]) {
+    super(
+      `Invalid configuration (${issues.length} ${issues.length === 1 ? "problem" : "problems"}):\n` +
+        issues.map(({ path, message }) => `  - ${path}: ${message}`).join("\n"),
+    );
+    this.name = "ConfigValidationError";
+  }
+}
+
+type Check = (value: any) => string | undefined;
+
+type Schema = { required?: boolean; check?: Check } & (
+  | { type: "string" | "boolean" | "number" }
+  | { type: "array"; items: Schema }
+  | { type: "object"; fields: Record<string, Schema> }
+  | { type: "map"; values: Schema }
+  | { type: "anyOf"; options: Schema[] }
+);
+
+const string: Schema = { type: "string" };
+const boolean: Schema = { type: "boolean" };
+const number: Schema = { type: "number" };
+const required = (schema: Schema): Schema => ({ ...schema, required: true });
+const min =
+  (limit: number): Check =>
+  (value: number) =>
+    value < limit ? `must be at least ${limit}` : undefined;
+
+const protocolVersion: Schema = {
+  type: "number",
+  check: (value: number) =>
+    [3, 4, 5].includes(value)
+      ? undefined
+      : "must be 3 (MQTT 3.1), 4 (MQTT 3.1.1) or 5 (MQTT 5.0)",
+};
+
+const deviceSchema: Schema = {
+  type: "object",
+  fields: {
+    device_id: string,
+    mac: string,
+    type: string,
+    version: number,
+    inverse_forwarding: boolean,
+    name: string,
+    broker_id: string,
+    remote_id: string,
+    use_remote_topic_id: boolean,
+    salt: string,
+    account: string,
+    sn: string,
+    bluetooth_name: string,
+    access: string,
+    forward_telemetry: boolean,
+    poll_interval_seconds: { ...number, check: min(0) },
+    poll_payload: string,
+    read_only: boolean,
+  },
+};
+
+const rateLimit: Schema = {
+  type: "object",
+  fields: {
+    messages_per_second: {
+      ...required(number),
+      check: (value: number) =>
+        value > 0 ? undefined : "must be greater than 0",
+    },
+    burst: { ...number, check: min(1) },
+    max_delay_ms: { ...number, check: min(0) },
+  },
+};
+
+/** Complete record, so every new option has to declare its type. */
+const mainConfigFields: Record<keyof MainConfig, Schema> = {
+  broker_url: required(string),
+  broker_protocol_version: protocolVersion,
+  devices: { type: "array", items: deviceSchema },
+  inverse_forwarding: boolean,
+  username: string,
+  password: string,
+  password_md5: string,
+  accounts: {
+    type: "array",
+    items: {
+      type: "object",
+      fields: {
+        username: required(string),
+        password: string,
+        password_md5: string,
+      },
+    },
+  },
+  default_broker_id: string,
+  api_region: string,
+  api_base_url: string,
+  api_fallback_urls: { type: "array", items: string },
+  api_retry: {
+    type: "object",
+    fields: {
+      max_retries: { ...number, check: min(0) },
+      base_delay_ms: { ...number, check: min(0) },
+      max_delay_ms: { ...number, check: min(0) },
+      backoff_multiplier: { ...number, check: min(1) },
+      jitter: {
+        ...number,
+        check: (value: number) =>
+          value < 0 || value > 1 ? "must be between 0 and 1" : undefined,
+      },
+    },
+  },
+  api_request_timeout_ms: { ...number, check: min(1) },
+  inverse_forwarding_device_ids: string,
+  device_refresh_interval_minutes: { ...number, check: min(0) },
+  message_history_max_entries: { ...number, check: min(1) },
+  forward_telemetry: {
+    type: "anyOf",
+    options: [boolean, { type: "array", items: string }],
+  },
+  telemetry_interval_seconds: { ...number, check: min(0) },
+  poll_interval_seconds: { ...number, check: min(0) },
+  poll_payload: string,
+  command_rules: {
+    type: "array",
+    items: {
+      type: "object",
+      fields: {
+        device_types: { type: "array", items: string },
+        commands: {
+          type: "array",
+          items: { type: "anyOf", options: [string, number] },
+        },
+        keys: { type: "array", items: string },
+        action: {
+          ...required(string),
+          check: (value: string) =>
+            ["allow", "deny", "log"].includes(value)
+              ? undefined
+              : 'must be "allow", "deny" or "log"',
+        },
+      },
+    },
+  },
+  read_only: boolean,
+  rate_limit: {
+    type: "object",
+    fields: { local_to_remote: rateLimit, remote_to_local: rateLimit },
+  },
+};
+
+const brokerFields: Record<keyof BrokerDefinition, Schema> = {
+  url: required(string),
+  ca: required(string),
+  cert: required(string),
+  key: required(string),
+  topic_prefix: string,
+  local_topic_prefix: string,
+  topic_encryption_key: {
+    ...string,
+    check: (value: string) =>
+      /^[0-9a-fA-F]{32}$/.test(value)
+        ? undefined
+        : "must be 32 hexadecimal characters (a 128-bit AES key)",
+  },
+  client_id_prefix: string,
+  protocol_version: protocolVersion,
+};
+
+const brokersSchema: Schema = {
+  type: "map",
+  values: { type: "object", fields: brokerFields },
+};
+
+function childPath(parent: string, key: string | number): string {
+  if (typeof key === "number") {
+    return `${parent}[${key}]`;
+  }
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(key)
+    ? `${parent}.${key}`
+    : `${parent}[${JSON.stringify(key)}]`;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function unknownKeyMessage(key: string, known: string[]): string {
+  const suggestion = known.find(
+    (candidate) => editDistance(key, candidate) <= 2,
+  );
+  return suggestion
+    ? `unknown key (did you mean "${suggestion}"?)`
+    : "unknown key";
+}
+
+function validateValue(
+  value: unknown,
+  schema: Schema,
+  path: string,
+  issues: ConfigIssue[],
+): void {
+  const actual = describe(value);
+  if (schema.type === "anyOf") {
+    validateAnyOf(value, schema.options, path, issues);
+    return;
+  }
+  const expected = schema.type === "map" ? "object" : schema.type;
+  if (actual !== expected) {
+    issues.push({ path, message: `expected ${expected}, got ${actual}` });
+    return;
+  }
+  switch (schema.type) {
+    case "array":
+      (value as unknown[]).forEach((item, index) =>
+        validateValue(item, schema.items, childPath(path, index), issues),
+      );
+      break;
+    case "map":
+      for (const [key, item] of Object.entries(value as object)) {
+        validateValue(item, schema.values, childPath(path, key), issues);
+      }
+      break;
+    case "object": {
+      const known = Object.keys(schema.fields);
+      const record = value as Record<string, unknown>;
+      for (const [key, item] of Object.entries(record)) {
+        const itemPath = childPath(path, key);
+        if (known.includes(key)) {
+          validateValue(item, schema.fields[key], itemPath, issues);
+        } else {
+          issues.push({
+            path: itemPath,
+            message: unknownKeyMessage(key, known),
+          });
+        }
+      }
+      for (const [key, fieldSchema] of Object.entries(schema.fields)) {
+        if (fieldSchema.required && record[key] === undefined) {
+          issues.push({ path: childPath(path, key), message: "is required" });
+        }
+      }
+      break;
+    }
+  }
+  const problem = schema.check?.(value);
+  if (problem) {
+    issues.push({ path, message: problem });
+  }
+}
+
+/**
+ * Accepts `value` if it satisfies one of `options`. Otherwise reports the
+ * issues of the option with the matching type, or a type mismatch.
+ */
+function validateAnyOf(
+  value: unknown,
+  options: Schema[],
+  path: string,
+  issues: ConfigIssue[],
+): void {
+  const actual = describe(value);
+  const candidate = options.find(
+    (option) => (option.type === "map" ? "object" : option.type) === actual,
+  );
+  if (candidate) {
+    validateValue(value, candidate, path, issues);
+    return;
+  }
+  const expected = options.map((option) =>
+    option.type === "map" ? "object" : option.type,
+  );
+  issues.push({
+    path,
+    message: `expected ${expected.join(" or ")}, got ${actual}`,
+  });
+}
+
+/** Checks the types and keys of every broker definition in `brokers.json`. */
+export function validateBrokers(brokers: unknown): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  validateValue(brokers, brokersSchema, "brokers", issues);
+  return issues;
+}
+
+/**
+ * Checks the resolved configuration (after `${ENV}`, `@file` and
+ * `HAME_RELAY_*` processing) and `brokers.json`: value types, unknown keys
+ * and broker ids referenced by `default_broker_id` and the `devices`
+ * overrides. Device fields that the relay normalizes, such as MAC formats, are
+ * checked later when the relay plan is built.
+ */
+export function validateConfiguration(
+  config: unknown,
+  brokers: unknown,
+): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  validateValue(
+    config,
+    { type: "object", fields: mainConfigFields },
+    "config",
+    issues,
+  );
+  issues.push(...validateBrokers(brokers));
+  if (describe(config) !== "object" || describe(brokers) !== "object") {
+    return issues;
+  }
+  const { default_broker_id, devices } = config as MainConfig;
+  const brokerIds = Object.keys(brokers as object);
+  const checkBroker = (brokerId: unknown, path: string) => {
+    if (typeof brokerId === "string" && !brokerIds.includes(brokerId)) {
+      issues.push({
+        path,
+        message: `broker "${brokerId}" is not defined in brokers.json (known: ${brokerIds.join(", ") || "none"})`,
+      });
+    }
+  };
+  checkBroker(default_broker_id, "config.default_broker_id");
+  if (Array.isArray(devices)) {
+    devices.forEach((device, index) =>
+      checkBroker(device?.broker_id, `config.devices[${index}].broker_id`),
+    );
+  }
+  return issues;
+}
@@ -0,0 +1,34 @@
+import { test, describe } from "node:test";
+import assert from "node:assert";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { setTimeout as sleep } from "timers/promises";
+import { ConfigWatcher } from "./config_watcher.js";
+
+describe("ConfigWatcher", () => {
+  test("reloads once per burst of changes and ignores unwatched files", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "config-watcher-"));
+    const config = join(dir, "config.json");
+    const cert = join(dir, "cert.pem");
+    writeFileSync(config, "{}");
+    writeFileSync(cert, "");
+    let reloads = 0;
+    const watcher = new ConfigWatcher([config, cert], async () => {
+      reloads++;
+    });
+    try {
+      watcher.setFiles([config]);
+      await sleep(100);
+      writeFileSync(config, '{"a":1}');
+      writeFileSync(cert, "changed");
+      await sleep(100);
+      writeFileSync(config, '{"a":12}');
+      await sleep(3500);
+      assert.strictEqual(reloads, 1);
+    } finally {
+      watcher.close();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,66 @@
+import { watchFile, unwatchFile, Stats } from "fs";
+import { logger } from "./logger.js";
+
+const POLL_INTERVAL_MS = 2000;
+const DEBOUNCE_MS = 500;
+
+/**
+ * Polls a set of files for changes and invokes `onChange` once per burst of
+ * modifications. Polling (rather than `fs.watch`) also picks up files that are
+ * replaced atomically, e.g. by editors or mounted Kubernetes config maps.
+ * Reloads are serialized: a change that arrives while `onChange` is still
+ * running triggers another run once it finishes.
+ */
+export class ConfigWatcher {
+  private files: Set<string> = new Set();
+  private debounceTimer?: NodeJS.Timeout;
+  private running: Promise<void> = Promise.resolve();
+  private readonly listener = (curr: Stats, prev: Stats) => {
+    if (curr.mtimeMs !== prev.mtimeMs || curr.size !== prev.size) {
+      this.schedule();
+    }
+  };
+
+  constructor(
+    files: string[],
+    private readonly onChange: () => Promise<void>,
+  ) {
+    this.setFiles(files);
+  }
+
+  /** Replaces the watched set, e.g. after `@file` references changed. */
+  public setFiles(files: string[]): void {
+    const next = new Set(files);
+    for (const file of this.files) {
+      if (!next.has(file)) {
+        unwatchFile(file, this.listener);
+      }
+    }
+    for (const file of next) {
+      if (!this.files.has(file)) {
+        watchFile(file, { interval: POLL_INTERVAL_MS }, this.listener);
+        logger.debug(`Watching ${file} for changes`);
+      }
+    }
+    this.files = next;
+  }
+
+  private schedule(): void {
+    clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      this.running = this.running.then(() =>
+        this.onChange().catch((error) => {
+          logger.error(error, "Configuration reload failed");
+        }),
+      );
+    }, DEBOUNCE_MS);
+  }
+
+  public close(): void {
+    clearTimeout(this.debounceTimer);
+    for (const file of this.files) {
+      unwatchFile(file, this.listener);
+    }
+    this.files.clear();
+  }
+}
@@ -0,0 +1,54 @@
+import { test, describe } from "node:test";
+import assert from "node:assert";
+import { existsSync, mkdtempSync, writeFileSync, statSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DeviceCache } from "./device_cache.js";
+
+const devices = [
+  {
+    devid: "0123456789abcdef01234567",
+    name: "Balcony",
+    mac: "aabbccddeeff",
+    type: "HMA-1",
+    version: "226",
+    salt: "s1,s2",
+  },
+];
+
+describe("DeviceCache", () => {
+  test("round-trips the saved device list", () => {
+    const path = join(mkdtempSync(join(tmpdir(), "hame-relay-")), "cache.json");
+    const cache = new DeviceCache(path);
+    cache.save(devices);
+    const loaded = cache.load();
+    assert.ok(loaded);
+    assert.deepStrictEqual(loaded.devices, devices);
+    assert.ok(!isNaN(Date.parse(loaded.updatedAt)));
+    assert.strictEqual(statSync(path).mode & 0o777, 0o600);
+  });
+
+  test("a read-only cache does not write the file", () => {
+    const path = join(mkdtempSync(join(tmpdir(), "hame-relay-")), "cache.json");
+    new DeviceCache(path, true).save(devices);
+    assert.strictEqual(existsSync(path), false);
+  });
+
+  test("returns undefined when the file is missing", () => {
+    const dir = mkdtempSync(join(tmpdir(), "hame-relay-"));
+    assert.strictEqual(
+      new DeviceCache(join(dir, "none.json")).load(),
+      undefined,
+    );
+  });
+
+  test("returns undefined for a corrupt or empty cache", () => {
+    const dir = mkdtempSync(join(tmpdir(), "hame-relay-"));
+    const corrupt = join(dir, "corrupt.json");
+    writeFileSync(corrupt, "{not json");
+    assert.strictEqual(new DeviceCache(corrupt).load(), undefined);
+    const empty = join(dir, "empty.json");
+    writeFileSync(empty, JSON.stringify({ updated_at: "", devices: [] }));
+    assert.strictEqual(new DeviceCache(empty).load(), undefined);
+  });
+});
@@ -0,0 +1,90 @@
+import { readFileSync, writeFileSync, renameSync } from "fs";
+import { logger } from "./logger.js";
+import { DeviceInfo } from "./hame_api.js";
+
+interface DeviceCacheFile {
+  updated_at: string;
+  devices: DeviceInfo[];
+}
+
+export interface CachedDevices {
+  updatedAt: string;
+  devices: DeviceInfo[];
+}
+
+/**
+ * Persists the last successful Hame API device list so the relay can still
+ * start while the cloud API is unreachable. The file contains the device
+ * salts, so it is written with owner-only permissions.
+ */
+export class DeviceCache {
+  /** A `readOnly` cache loads the file but never writes it. */
+  constructor(
+    private readonly path: string,
+    private readonly readOnly = false,
+  ) {}
+
+  public save(devices: DeviceInfo[]): void {
+    if (this.readOnly) {
+      return;
+    }
+    const content: DeviceCacheFile = {
+      updated_at: new Date().toISOString(),
+      devices: devices.map(
+        ({
+          devid,
+          name,
+          mac,
+          type,
+          version,
+          salt,
+          account,
+          sn,
+          bluetooth_name,
+          access,
+        }) => ({
+          devid,
+          name,
+          mac,
+          type,
+          version,
+          salt,
+          account,
+          sn,
+          bluetooth_name,
+          access,
+        }),
+      ),
+    };
+    const tmpPath = `${this.path}.tmp`;
+    try {
+      writeFileSync(tmpPath, JSON.stringify(content, null, 2), {
+        mode: 0o600,
+      });
+      renameSync(tmpPath, this.path);
+      logger.debug(`Saved ${devices.length} devices to ${this.path}`);
+    } catch (error) {
+      // The cache is a fallback only; never fail a successful fetch over it.
+      logger.warn(error, `Failed to write device cache ${this.path}`);
+    }
+  }
+
+  public load(): CachedDevices | undefined {
+    let raw: string;
+    try {
+      raw = readFileSync(this.path, "utf8");
+    } catch {
+      return undefined;
+    }
+    try {
+      const content = JSON.parse(raw) as DeviceCacheFile;
+      if (!Array.isArray(content.devices) || content.devices.length === 0) {
+        return undefined;
+      }
+      return { updatedAt: content.updated_at, devices: content.devices };
+    } catch (error) {
+      logger.warn(error, `Ignoring unreadable device cache ${this.path}`);
+      return undefined;
+    }
+  }
+}
@@ -8,6 +8,9 @@ import {
   isAstraMeterFamily,
   isAstraMeterSyntheticMac,
   resolveProfile,
+  responseTimeoutMs,
+  DEFAULT_RESPONSE_TIMEOUT_MS,
+  isStatusCommand,
 } from "./device_matrix.js";
 
 describe("device_matrix", () => {
@@ -323,6 +326,28 @@ describe("device_matrix", () => {
     });
   });
 
+  describe("responseTimeoutMs", () => {
+    test("families without an override use the default", () => {
+      for (const type of ["HMA-1", "HMI-2000", "VNSE3-0", "ZZZ-1"]) {
+        assert.strictEqual(
+          responseTimeoutMs(type),
+          DEFAULT_RESPONSE_TIMEOUT_MS,
+          type,
+        );
+      }
+    });
+  });
+
+  describe("isStatusCommand", () => {
+    test("only the status request is read-only by default", () => {
+      assert.strictEqual(isStatusCommand("HMA-1", "1"), true);
+      assert.strictEqual(isStatusCommand("HMJ-2", "01"), true);
+      assert.strictEqual(isStatusCommand("HMA-1", "20"), false);
+      assert.strictEqual(isStatusCommand("HMA-1", "1a"), false);
+      assert.strictEqual(isStatusCommand("HMA-1", undefined), false);
+    });
+  });
+
   describe("inverseForwardingPolicy", () => {
     test("HMA/HMF/HMK/HMJ/HMB are selectable", () => {
       for (const type of ["HMA-1", "HMF-1", "HMK-1", "HMJ-1", "HMB-1"]) {
@@ -58,8 +58,28 @@ export interface DeviceProfile {
   inverse: InversePolicy;
   /** HME family: subject to AstraMeter synthetic-MAC handling. */
   astraMeter?: boolean;
+  /**
+   * How long a forwarded App request waits for the device's reply. Defaults
+   * to {@link DEFAULT_RESPONSE_TIMEOUT_MS}.
+   */
+  responseTimeoutMs?: number;
+  /**
+   * Command codes (`cd=`) that only read the device state and are relayed in
+   * read-only mode. Defaults to {@link DEFAULT_STATUS_COMMANDS}.
+   */
+  statusCommands?: string[];
 }
 
+/**
+ * Covers a cloud round-trip plus the device's processing time. The App
+ * itself re-requests status every few seconds, so a longer wait only lets
+ * stale replies through.
+ */
+export const DEFAULT_RESPONSE_TIMEOUT_MS = 5000;
+
+/** The status request the App sends to refresh its display. */
+export const DEFAULT_STATUS_COMMANDS = ["1"];
+
 /** Routing for a device that moves from the 2024 broker to the 2025 broker at `migrationVersion`. */
 function migrate2024to2025(migrationVersion: number): BrokerRoute[] {
   return [
@@ -337,6 +357,27 @@ export function usesRemoteTopicId(type: string, version: number): boolean {
   );
 }
 
+/** How long a forwarded App request to this device type awaits its reply. */
+export function responseTimeoutMs(type: string): number {
+  return resolveProfile(type).responseTimeoutMs ?? DEFAULT_RESPONSE_TIMEOUT_MS;
+}
+
+/**
+ * Whether an App command to this device type only reads its state. Payloads
+ * without a command code are not status requests.
+ */
+export function isStatusCommand(
+  type: string,
+  command: string | undefined,
+): boolean {
+  if (command === undefined || !/^\d+$/.test(command)) {
+    return false;
+  }
+  const statusCommands =
+    resolveProfile(type).statusCommands ?? DEFAULT_STATUS_COMMANDS;
+  return statusCommands.some((code) => +code === +command);
+}
+
 /** Inverse-forwarding policy for a device type. */
 export function inverseForwardingPolicy(type: string): InversePolicy {
   return resolveProfile(type).inverse;
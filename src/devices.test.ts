@@ -0,0 +1,296 @@
+import { test, describe } from "node:test";
+import assert from "node:assert";
+import {
+  diffDevices,
+  isEmptyDiff,
+  isManualMode,
+  isSharedAccess,
+  mergeDevices,
+  resolveAccounts,
+  resolveApiBaseUrls,
+  resolveApiOptions,
+  toDevice,
+} from "./devices.js";
+import { Device } from "./types.js";
+
+const device = (id: string, extra: Partial<Device> = {}): Device => ({
+  device_id: id,
+  mac: "aabbccddeeff",
+  type: "HMA-1",
+  version: 220,
+  ...extra,
+});
+
+describe("devices", () => {
+  describe("isSharedAccess", () => {
+    test("access 1 marks owned devices, other values shared ones", () => {
+      assert.strictEqual(isSharedAccess("1"), false);
+      assert.strictEqual(isSharedAccess("2"), true);
+      assert.strictEqual(isSharedAccess(undefined), undefined);
+    });
+  });
+
+  describe("toDevice", () => {
+    test("maps API fields, metadata and parses the firmware version", () => {
+      assert.deepStrictEqual(
+        toDevice({
+          devid: "0123456789abcdef01234567",
+          name: "Balcony",
+          mac: "aabbccddeeff",
+          type: "HMA-1",
+          version: "226",
+          salt: "s1,s2",
+          account: "user@example.com",
+          sn: "HMA1234567",
+          bluetooth_name: "HM_B2500_eeff",
+          access: "1",
+        }),
+        {
+          device_id: "0123456789abcdef01234567",
+          mac: "aabbccddeeff",
+          type: "HMA-1",
+          name: "Balcony",
+          version: 226,
+          salt: "s1,s2",
+          account: "user@example.com",
+          sn: "HMA1234567",
+          bluetooth_name: "HM_B2500_eeff",
+          access: "1",
+        },
+      );
+    });
+
+    test("defaults a missing version to 1", () => {
+      const result = toDevice({
+        devid: "0123456789abcdef01234567",
+        name: "",
+        mac: "02b250123456",
+        type: "HME-4",
+        version: "",
+      });
+      assert.strictEqual(result.version, 1);
+    });
+  });
+
+  describe("diffDevices", () => {
+    test("identical lists produce an empty diff", () => {
+      const diff = diffDevices([device("a")], [device("a")]);
+      assert.strictEqual(isEmptyDiff(diff), true);
+    });
+
+    test("detects added and removed devices", () => {
+      const diff = diffDevices([device("a")], [device("b")]);
+      assert.deepStrictEqual(
+        diff.added.map((d) => d.device_id),
+        ["b"],
+      );
+      assert.deepStrictEqual(
+        diff.removed.map((d) => d.device_id),
+        ["a"],
+      );
+      assert.deepStrictEqual(diff.changed, []);
+    });
+
+    test("a firmware upgrade is reported as a change", () => {
+      const diff = diffDevices(
+        [device("a", { version: 225 })],
+        [device("a", { version: 226 })],
+      );
+      assert.strictEqual(diff.changed.length, 1);
+      assert.strictEqual(diff.changed[0].before.version, 225);
+      assert.strictEqual(diff.changed[0].after.version, 226);
+    });
+
+    test("a renamed device does not need re-routing", () => {
+      const diff = diffDevices(
+        [device("a", { name: "old" })],
+        [device("a", { name: "new" })],
+      );
+      assert.strictEqual(isEmptyDiff(diff), true);
+    });
+  });
+
+  describe("mergeDevices", () => {
+    test("explicit fields override the API device matched by device_id", () => {
+      const merged = mergeDevices(
+        [device("a", { salt: "s1,s2" })],
+        [{ device_id: "a", broker_id: "hame-2025", remote_id: "r" } as Device],
+      );
+      assert.deepStrictEqual(merged, [
+        device("a", { salt: "s1,s2", broker_id: "hame-2025", remote_id: "r" }),
+      ]);
+    });
+
+    test("matches by MAC address regardless of formatting", () => {
+      const merged = mergeDevices(
+        [device("a")],
+        [
+          {
+            mac: "AA:BB:CC:DD:EE:FF",
+            inverse_forwarding: false,
+          } as Device,
+        ],
+      );
+      assert.strictEqual(merged.length, 1);
+      assert.strictEqual(merged[0].device_id, "a");
+      assert.strictEqual(merged[0].inverse_forwarding, false);
+      assert.strictEqual(merged[0].mac, "AA:BB:CC:DD:EE:FF");
+    });
+
+    test("undefined fields do not clear API values", () => {
+      const merged = mergeDevices(
+        [device("a", { version: 226 })],
+        [{ device_id: "a", version: undefined } as Device],
+      );
+      assert.strictEqual(merged[0].version, 226);
+    });
+
+    test("unmatched entries are added as extra devices", () => {
+      const merged = mergeDevices(
+        [device("a")],
+        [device("b", { mac: "112233445566" })],
+      );
+      assert.deepStrictEqual(
+        merged.map((d) => d.device_id),
+        ["a", "b"],
+      );
+    });
+
+    test("does not mutate its inputs", () => {
+      const api = [device("a")];
+      const configured = [{ device_id: "a", broker_id: "x" } as Device];
+      mergeDevices(api, configured);
+      assert.strictEqual(api[0].broker_id, undefined);
+    });
+  });
+
+  describe("resolveAccounts", () => {
+    const broker_url = "mqtt://localhost";
+
+    test("combines the top-level credentials with additional accounts", () => {
+      assert.deepStrictEqual(
+        resolveAccounts({
+          broker_url,
+          username: "a@example.com",
+          password: "pa",
+          accounts: [{ username: "b@example.com", password: "pb" }],
+        }),
+        [
+          { username: "a@example.com", password: "pa" },
+          { username: "b@example.com", password: "pb" },
+        ],
+      );
+    });
+
+    test("supports accounts without top-level credentials", () => {
+      const config = {
+        broker_url,
+        accounts: [{ username: "b@example.com", password: "pb" }],
+      };
+      assert.strictEqual(resolveAccounts(config).length, 1);
+      assert.strictEqual(isManualMode(config), false);
+    });
+
+    test("no credentials at all means manual mode", () => {
+      assert.strictEqual(isManualMode({ broker_url }), true);
+      assert.strictEqual(isManualMode({ broker_url, accounts: [] }), true);
+    });
+
+    test("rejects incomplete credentials", () => {
+      assert.throws(
+        () => resolveAccounts({ broker_url, username: "a@example.com" }),
+        /Both username and password are required/,
+      );
+      assert.throws(
+        () =>
+          resolveAccounts({
+            broker_url,
+            accounts: [{ username: "b@example.com", password: "" }],
+          }),
+        /b@example.com/,
+      );
+    });
+
+    test("accepts a precomputed password hash instead of the password", () => {
+      assert.deepStrictEqual(
+        resolveAccounts({
+          broker_url,
+          username: "a@example.com",
+          password_md5: "5EBE2294ECD0E0F08EAB7690D2A6EE69",
+        }),
+        [
+          {
+            username: "a@example.com",
+            password_md5: "5EBE2294ECD0E0F08EAB7690D2A6EE69",
+          },
+        ],
+      );
+    });
+
+    test("rejects ambiguous or malformed password hashes", () => {
+      assert.throws(
+        () =>
+          resolveAccounts({
+            broker_url,
+            username: "a@example.com",
+            password: "secret",
+            password_md5: "5ebe2294ecd0e0f08eab7690d2a6ee69",
+          }),
+        /sets both password and password_md5/,
+      );
+      assert.throws(
+        () =>
+          resolveAccounts({
+            broker_url,
+            accounts: [{ username: "b@example.com", password_md5: "abc" }],
+          }),
+        /32-character hexadecimal MD5 hash/,
+      );
+    });
+  });
+
+  describe("resolveApiBaseUrls", () => {
+    const broker_url = "mqtt://localhost";
+
+    test("defaults to the EU endpoint", () => {
+      assert.deepStrictEqual(resolveApiBaseUrls({ broker_url }), [
+        "https://eu.hamedata.com",
+      ]);
+    });
+
+    test("derives the endpoint from the region", () => {
+      assert.deepStrictEqual(
+        resolveApiBaseUrls({ broker_url, api_region: " US " }),
+        ["https://us.hamedata.com"],
+      );
+    });
+
+    test("api_base_url wins over the region and fallbacks follow in order", () => {
+      assert.deepStrictEqual(
+        resolveApiBaseUrls({
+          broker_url,
+          api_region: "us",
+          api_base_url: "http://localhost:8081",
+          api_fallback_urls: [
+            "https://eu.hamedata.com",
+            "http://localhost:8081",
+          ],
+        }),
+        ["http://localhost:8081", "https://eu.hamedata.com"],
+      );
+    });
+  });
+
+  describe("resolveApiOptions", () => {
+    test("maps configured fields and leaves the rest to the defaults", () => {
+      assert.deepStrictEqual(
+        resolveApiOptions({
+          broker_url: "mqtt://localhost",
+          api_retry: { max_retries: 5, jitter: 0 },
+          api_request_timeout_ms: 5000,
+        }),
+        { retry: { maxRetries: 5, jitter: 0 }, requestTimeoutMs: 5000 },
+      );
+    });
+  });
+});
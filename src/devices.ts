@@ -0,0 +1,363 @@
+import { DeviceCache } from "./device_cache.js";
+import { logger } from "./logger.js";
+import {
+  HameApi,
+  HameApiOptions,
+  Password,
+  RetryOptions,
+  DeviceInfo,
+  DEFAULT_API_BASE_URL,
+} from "./hame_api.js";
+import { TokenCache } from "./token_cache.js";
+import {
+  Device,
+  HameAccount,
+  MainConfig,
+  DeviceTypeIdentifier,
+  knownDeviceTypes,
+} from "./types.js";
+
+/** Default interval between two device list refreshes from the Hame API. */
+export const DEFAULT_DEVICE_REFRESH_INTERVAL_MINUTES = 60;
+
+/**
+ * `access` the Hame API reports for devices the account owns; any other value
+ * marks a device another account shared with it. The API does not document
+ * its values; this mapping is taken from observed login responses.
+ */
+export const OWNER_ACCESS = "1";
+
+/**
+ * Whether a device was shared with the account rather than owned by it.
+ * Undefined when the access level is unknown, e.g. in manual mode.
+ */
+export function isSharedAccess(
+  access: string | undefined,
+): boolean | undefined {
+  return access === undefined ? undefined : access !== OWNER_ACCESS;
+}
+
+/**
+ * Fields that influence how a device is routed. A change in any of them means
+ * the device has to be planned again.
+ */
+const ROUTING_FIELDS: (keyof Device)[] = ["mac", "type", "version", "salt"];
+
+export interface DeviceDiff {
+  added: Device[];
+  removed: Device[];
+  changed: Array<{ before: Device; after: Device }>;
+}
+
+export function toDevice(device: DeviceInfo): Device {
+  let deviceType = device.type as DeviceTypeIdentifier;
+  if (!knownDeviceTypes.includes(deviceType)) {
+    logger.warn(`Unknown device type from API: ${device.type}. Using as-is.`);
+  }
+  const v = parseInt(device.version, 10);
+  return {
+    device_id: device.devid,
+    mac: device.mac,
+    type: deviceType,
+    name: device.name,
+    version: isNaN(v) ? 1 : v,
+    salt: device.salt,
+    account: device.account,
+    sn: device.sn,
+    bluetooth_name: device.bluetooth_name,
+    access: device.access,
+  } as Device;
+}
+
+/**
+ * Every Hame account to fetch devices from: the top-level `username` /
+ * `password` (or `password_md5`) pair (if set) followed by the entries in
+ * `accounts`.
+ */
+export function resolveAccounts(config: MainConfig): HameAccount[] {
+  const accounts: HameAccount[] = [];
+  if (config.username || config.password || config.password_md5) {
+    const account: HameAccount = { username: config.username! };
+    if (config.password !== undefined) account.password = config.password;
+    if (config.password_md5 !== undefined) {
+      account.password_md5 = config.password_md5;
+    }
+    accounts.push(account);
+  }
+  accounts.push(...(config.accounts ?? []));
+  for (const account of accounts) {
+    const name = account.username || "(no username)";
+    if (!account.username || !(account.password || account.password_md5)) {
+      throw new Error(
+        `Both username and password are required for Hame account ${name} (password_md5 may replace password). Remove the account to configure its devices manually.`,
+      );
+    }
+    if (account.password && account.password_md5) {
+      throw new Error(
+        `Hame account ${name} sets both password and password_md5; set only one of them.`,
+      );
+    }
+    if (
+      account.password_md5 &&
+      !/^[0-9a-fA-F]{32}$/.test(account.password_md5)
+    ) {
+      throw new Error(
+        `password_md5 of Hame account ${name} must be a 32-character hexadecimal MD5 hash.`,
+      );
+    }
+  }
+  return accounts;
+}
+
+/** The credential sent to the Hame API for `account`. */
+function accountPassword(account: HameAccount): Password {
+  return account.password_md5
+    ? { md5: account.password_md5.toLowerCase() }
+    : account.password!;
+}
+
+/**
+ * Manual mode: without Hame account credentials, `config.devices` is the
+ * complete device list and the Hame API is never called.
+ */
+export function isManualMode(config: MainConfig): boolean {
+  return resolveAccounts(config).length === 0;
+}
+
+/**
+ * Ordered Hame API endpoints: `api_base_url` (or the `api_region` endpoint, or
+ * the default) followed by `api_fallback_urls`.
+ */
+export function resolveApiBaseUrls(config: MainConfig): string[] {
+  const primary =
+    config.api_base_url ??
+    (config.api_region
+      ? `https://${config.api_region.trim().toLowerCase()}.hamedata.com`
+      : DEFAULT_API_BASE_URL);
+  const urls = [primary, ...(config.api_fallback_urls ?? [])].map((url) =>
+    url.trim(),
+  );
+  return [...new Set(urls)];
+}
+
+/** Maps `api_retry` and `api_request_timeout_ms` to {@link HameApi} options. */
+export function resolveApiOptions(config: MainConfig): HameApiOptions {
+  const retry = config.api_retry ?? {};
+  const mapped: Partial<RetryOptions> = {
+    maxRetries: retry.max_retries,
+    baseDelayMs: retry.base_delay_ms,
+    maxDelayMs: retry.max_delay_ms,
+    backoffMultiplier: retry.backoff_multiplier,
+    jitter: retry.jitter,
+  };
+  return {
+    // Unset fields must not override the defaults.
+    retry: Object.fromEntries(
+      Object.entries(mapped).filter(([, value]) => value !== undefined),
+    ),
+    requestTimeoutMs: config.api_request_timeout_ms,
+  };
+}
+
+export interface DeviceFetchResult {
+  devices: Device[];
+  /**
+   * `false` when at least one account could not be fetched and its devices
+   * come from the cache (or are missing).
+   */
+  complete: boolean;
+}
+
+async function fetchAccountDevices(
+  account: HameAccount,
+  baseUrls: string[],
+  options: HameApiOptions,
+  tokens?: TokenCache,
+): Promise<DeviceInfo[]> {
+  const api = new HameApi(baseUrls, tokens, options);
+  const devices = await api.fetchDevices(
+    account.username,
+    accountPassword(account),
+  );
+  if (devices.length === 0) {
+    throw new Error(
+      `No devices found in Hame account ${account.username}. Please check your credentials and ensure you have devices registered.`,
+    );
+  }
+  return devices.map((device) => ({ ...device, account: account.username }));
+}
+
+/**
+ * Fetches the devices of every configured account from the Hame API. An
+ * account that fails falls back to its devices from `cache`, so one broken
+ * account never stops forwarding for the others. Devices registered in more
+ * than one account are kept once, tagged with the first account they were
+ * found in. The combined result is written back to `cache`. Throws only when
+ * no device could be obtained at all. Pass the same `tokens` on every call to
+ * reuse Hame API sessions.
+ */
+export async function fetchApiDevices(
+  config: MainConfig,
+  cache?: DeviceCache,
+  tokens?: TokenCache,
+): Promise<DeviceFetchResult> {
+  const accounts = resolveAccounts(config);
+  if (accounts.length === 0) {
+    logger.info(
+      "No Hame account configured - using the devices from the config file only",
+    );
+    return { devices: [], complete: true };
+  }
+
+  logger.info(
+    `Fetching devices from Hame API for ${accounts.length} account(s)...`,
+  );
+  const baseUrls = resolveApiBaseUrls(config);
+  const options = resolveApiOptions(config);
+  const results = await Promise.allSettled(
+    accounts.map((account) =>
+      fetchAccountDevices(account, baseUrls, options, tokens),
+    ),
+  );
+  const cached = results.some((r) => r.status === "rejected")
+    ? cache?.load()
+    : undefined;
+  const raw: DeviceInfo[] = [];
+  const failures: string[] = [];
+  results.forEach((result, index) => {
+    const { username } = accounts[index];
+    if (result.status === "fulfilled") {
+      raw.push(...result.value);
+      return;
+    }
+    const message =
+      result.reason instanceof Error
+        ? result.reason.message
+        : String(result.reason);
+    logger.error(
+      result.reason,
+      `Failed to fetch devices from Hame API for ${username}`,
+    );
+    failures.push(`${username}: ${message}`);
+    const fallback = cached?.devices.filter((d) => d.account === username);
+    if (fallback && fallback.length > 0) {
+      logger.warn(
+        `Using ${fallback.length} cached devices for ${username} from ${cached!.updatedAt}. Device information may be outdated until the Hame API is reachable again.`,
+      );
+      raw.push(...fallback);
+    } else {
+      logger.warn(
+        `No cached devices for ${username}; its devices are not forwarded until the Hame API is reachable again.`,
+      );
+    }
+  });
+
+  if (raw.length === 0) {
+    throw new Error(
+      `Unable to fetch device information from Hame API: ${failures.join("; ")}`,
+    );
+  }
+
+  const unique = new Map<string, DeviceInfo>();
+  for (const device of raw) {
+    const existing = unique.get(device.devid);
+    if (existing) {
+      logger.debug(
+        `Device ${device.devid} is registered in ${existing.account} and ${device.account}; using ${existing.account}`,
+      );
+      continue;
+    }
+    unique.set(device.devid, device);
+  }
+  const deduplicated = [...unique.values()];
+
+  cache?.save(deduplicated);
+  const apiDevices = deduplicated.map(toDevice);
+  logger.info(`Successfully retrieved ${apiDevices.length} devices from API`);
+  return { devices: apiDevices, complete: failures.length === 0 };
+}
+
+function normalizeMac(mac: string | undefined): string | undefined {
+  return mac?.trim().replace(/:/g, "").toLowerCase();
+}
+
+/**
+ * Applies the `devices` entries from `config.json` on top of the devices from
+ * the Hame API. An entry matches an API device by `device_id` or MAC address;
+ * every field it sets explicitly overrides the API value. Entries without a
+ * match are added as extra devices.
+ */
+export function mergeDevices(
+  apiDevices: Device[],
+  configured: Device[] = [],
+): Device[] {
+  const merged = apiDevices.map((device) => ({ ...device }));
+  for (const entry of configured) {
+    const id = entry.device_id?.trim();
+    const mac = normalizeMac(entry.mac);
+    const index = merged.findIndex(
+      (device) =>
+        (id && device.device_id.trim() === id) ||
+        (mac && normalizeMac(device.mac) === mac),
+    );
+    const overrides = Object.fromEntries(
+      Object.entries(entry).filter(([, value]) => value !== undefined),
+    ) as Partial<Device>;
+    if (index === -1) {
+      logger.info(
+        `Adding device ${entry.device_id} from config file (not in Hame account)`,
+      );
+      merged.push({ ...entry });
+    } else {
+      logger.info(
+        `Applying config file overrides to device ${merged[index].device_id}: ${Object.keys(overrides).join(", ")}`,
+      );
+      merged[index] = { ...merged[index], ...overrides };
+    }
+  }
+  return merged;
+}
+
+/** Compares two device lists by `device_id`. */
+export function diffDevices(previous: Device[], next: Device[]): DeviceDiff {
+  const before = new Map(previous.map((d) => [d.device_id, d]));
+  const after = new Map(next.map((d) => [d.device_id, d]));
+  const diff: DeviceDiff = { added: [], removed: [], changed: [] };
+  for (const [id, device] of after.entries()) {
+    const old = before.get(id);
+    if (!old) {
+      diff.added.push(device);
+    } else if (ROUTING_FIELDS.some((field) => old[field] !== device[field])) {
+      diff.changed.push({ before: old, after: device });
+    }
+  }
+  for (const [id, device] of before.entries()) {
+    if (!after.has(id)) {
+      diff.removed.push(device);
+    }
+  }
+  return diff;
+}
+
+export function isEmptyDiff(diff: DeviceDiff): boolean {
+  return (
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.changed.length === 0
+  );
+}
+
+export function logDeviceDiff(diff: DeviceDiff): void {
+  for (const device of diff.added) {
+    logger.info(`New device ${device.device_id} (${device.type})`);
+  }
+  for (const device of diff.removed) {
+    logger.info(`Device ${device.device_id} (${device.type}) was removed`);
+  }
+  for (const { before, after } of diff.changed) {
+    const changes = ROUTING_FIELDS.filter(
+      (field) => before[field] !== after[field],
+    ).map((field) => `${field}: ${before[field]} -> ${after[field]}`);
+    logger.info(`Device ${after.device_id} changed (${changes.join(", ")})`);
+  }
+}
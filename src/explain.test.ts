@@ -0,0 +1,91 @@
+import { test, describe } from "node:test";
+import assert from "node:assert";
+import { explainPlan } from "./explain.js";
+import { buildRelayPlan } from "./plan.js";
+import { BrokerDefinition, MainConfig } from "./types.js";
+
+const brokers: Record<string, BrokerDefinition> = {
+  "hame-2024": {
+    url: "mqtts://example.invalid:8883",
+    ca: "ca",
+    cert: "cert",
+    key: "key",
+    topic_prefix: "hame_energy/",
+  },
+  "hame-2025": {
+    url: "mqtts://example.invalid:8883",
+    ca: "ca",
+    cert: "cert",
+    key: "key",
+    topic_prefix: "marstek_energy/",
+    local_topic_prefix: "hame_energy/",
+    topic_encryption_key: "00112233445566778899aabbccddeeff",
+  },
+};
+
+const config: MainConfig = {
+  broker_url: "mqtt://localhost:1883",
+  devices: [
+    {
+      device_id: "0123456789abcdef01234567",
+      mac: "aabbccddeeff",
+      type: "HMA-1",
+      version: 230,
+      salt: "abc,def",
+    },
+    {
+      device_id: "0123456789abcdef01234568",
+      mac: "aabbccddee00",
+      type: "JPLS-8H",
+      version: 120,
+    },
+  ],
+};
+
+describe("explainPlan", () => {
+  const explanation = explainPlan(buildRelayPlan(config, brokers, []), config);
+  const [hma, jpls] = explanation.devices;
+
+  test("reports profile, broker and remote id derivation", () => {
+    assert.strictEqual(hma.profile, "HMA");
+    assert.strictEqual(hma.broker_id, "hame-2025");
+    assert.strictEqual(hma.remote_id_method, "salt-cq");
+    assert.strictEqual(hma.has_salt, true);
+    assert.strictEqual(jpls.profile, "JPLS");
+    assert.strictEqual(jpls.broker_id, "hame-2024");
+    assert.strictEqual(jpls.remote_id_method, "device-id");
+  });
+
+  test("never includes the salt itself", () => {
+    assert.ok(!JSON.stringify(explanation).includes("abc,def"));
+  });
+
+  test("direct forwarding: App messages from the cloud go to the local broker", () => {
+    assert.deepStrictEqual(hma.subscriptions.remote, {
+      topic: `marstek_energy/HMA-1/App/${hma.remote_id}/ctrl`,
+      forwards_to: "hame_energy/HMA-1/App/aabbccddeeff/ctrl",
+    });
+    assert.deepStrictEqual(hma.subscriptions.local, {
+      topic: "hame_energy/HMA-1/device/aabbccddeeff/ctrl",
+      forwards_to: `marstek_energy/HMA-1/device/${hma.remote_id}/ctrl`,
+    });
+  });
+
+  test("inverse forwarding: device messages from the cloud go to the local broker", () => {
+    assert.strictEqual(jpls.inverse_forwarding, true);
+    assert.strictEqual(
+      jpls.subscriptions.remote.topic,
+      "hame_energy/JPLS-8H/device/0123456789abcdef01234568/ctrl",
+    );
+    assert.strictEqual(
+      jpls.subscriptions.local.topic,
+      "hame_energy/JPLS-8H/App/aabbccddee00/ctrl",
+    );
+  });
+
+  test("groups device ids per broker", () => {
+    assert.deepStrictEqual(explanation.brokers["hame-2024"].devices, [
+      "0123456789abcdef01234568",
+    ]);
+  });
+});
@@ -0,0 +1,144 @@
+import { loadConfiguration, resolveConfigPaths } from "./config.js";
+import { DeviceCache } from "./device_cache.js";
+import { resolveProfile } from "./device_matrix.js";
+import { fetchApiDevices, isSharedAccess } from "./devices.js";
+import {
+  BrokerSide,
+  ctrlTopic,
+  subscribedKind,
+  subscriptionTopicFor,
+  topicStructureFor,
+} from "./forwarding_topics.js";
+import { buildRelayPlan, RelayPlan, RemoteIdMethod } from "./plan.js";
+import { TokenCache } from "./token_cache.js";
+import { BrokerDefinition, Device, MainConfig } from "./types.js";
+
+export interface SubscriptionExplanation {
+  /** Topic the relay subscribes to on this side. */
+  topic: string;
+  /** Topic a message received on `topic` is published to on the other side. */
+  forwards_to: string;
+}
+
+export interface DeviceExplanation {
+  device_id: string;
+  name?: string;
+  type: string;
+  version?: number;
+  mac: string;
+  account?: string;
+  sn?: string;
+  bluetooth_name?: string;
+  access?: string;
+  shared?: boolean;
+  /** Salts are secret; only report whether one is known. */
+  has_salt: boolean;
+  profile: string;
+  broker_id: string;
+  remote_id: string;
+  remote_id_method: RemoteIdMethod;
+  inverse_forwarding: boolean;
+  use_remote_topic_id: boolean;
+  forward_telemetry: boolean;
+  read_only: boolean;
+  subscriptions: Record<BrokerSide, SubscriptionExplanation>;
+}
+
+export interface RelayExplanation {
+  devices: DeviceExplanation[];
+  brokers: Record<
+    string,
+    { topic_prefix?: string; local_topic_prefix?: string; devices: string[] }
+  >;
+}
+
+function explainSubscription(
+  device: Device,
+  remote: BrokerDefinition,
+  side: BrokerSide,
+  inverseDefault?: boolean,
+): SubscriptionExplanation {
+  const other: BrokerSide = side === "local" ? "remote" : "local";
+  return {
+    topic: subscriptionTopicFor(device, remote, side, inverseDefault),
+    forwards_to: ctrlTopic(
+      topicStructureFor(device, remote, other),
+      device.type,
+      subscribedKind(device, side, inverseDefault),
+    ),
+  };
+}
+
+/** Describes a plan without touching any broker; the output of `explain`. */
+export function explainPlan(
+  plan: RelayPlan,
+  config: MainConfig,
+): RelayExplanation {
+  const explanation: RelayExplanation = { devices: [], brokers: {} };
+  for (const forwarder of plan.forwarders) {
+    const { remote, broker_id } = forwarder;
+    explanation.brokers[broker_id] = {
+      topic_prefix: remote.topic_prefix,
+      local_topic_prefix: remote.local_topic_prefix,
+      devices: forwarder.devices.map((d) => d.device_id),
+    };
+    for (const device of forwarder.devices) {
+      explanation.devices.push({
+        device_id: device.device_id,
+        name: device.name,
+        type: device.type,
+        version: device.version,
+        mac: device.mac,
+        account: device.account,
+        sn: device.sn,
+        bluetooth_name: device.bluetooth_name,
+        access: device.access,
+        shared: isSharedAccess(device.access),
+        has_salt: Boolean(device.salt),
+        profile: resolveProfile(device.type).name,
+        broker_id,
+        remote_id: device.remote_id!,
+        remote_id_method: plan.remoteIdMethods[device.device_id],
+        inverse_forwarding:
+          device.inverse_forwarding ?? config.inverse_forwarding ?? false,
+        use_remote_topic_id: device.use_remote_topic_id ?? false,
+        forward_telemetry: device.forward_telemetry ?? false,
+        read_only: device.read_only ?? config.read_only ?? false,
+        subscriptions: {
+          local: explainSubscription(
+            device,
+            remote,
+            "local",
+            config.inverse_forwarding,
+          ),
+          remote: explainSubscription(
+            device,
+            remote,
+            "remote",
+            config.inverse_forwarding,
+          ),
+        },
+      });
+    }
+  }
+  return explanation;
+}
+
+/**
+ * Runs the same planning pipeline as the relay (config, Hame API or device
+ * cache, device matrix) and prints the result as JSON. No MQTT connection is
+ * made, and the device and token caches are read but not written.
+ */
+export async function runExplain(): Promise<number> {
+  const { configPath, brokersPath, cachePath, tokenCachePath } =
+    resolveConfigPaths();
+  const { config, brokers } = loadConfiguration(configPath, brokersPath);
+  const { devices } = await fetchApiDevices(
+    config,
+    new DeviceCache(cachePath, true),
+    new TokenCache(tokenCachePath, undefined, true),
+  );
+  const plan = buildRelayPlan(config, brokers, devices);
+  console.log(JSON.stringify(explainPlan(plan, config), null, 2));
+  return 0;
+}
@@ -0,0 +1,90 @@
+import { BrokerDefinition, Device } from "./types.js";
+
+export type BrokerSide = "local" | "remote";
+export type MessageKind = "device" | "App";
+
+export interface TopicStructure {
+  prefix: string;
+  identifier: string;
+}
+
+const DEFAULT_TOPIC_PREFIX = "hame_energy/";
+
+/**
+ * Determines the appropriate topic prefix and identifier for a device on a specific broker
+ *
+ * This centralized function handles all the logic for determining which topic structure to use:
+ *
+ * For LOCAL broker:
+ *   - If use_remote_topic_id=true: Uses remote structure (topic_prefix + remote_id)
+ *   - If use_remote_topic_id=false: Uses local structure (local_topic_prefix + mac)
+ *
+ * For REMOTE broker:
+ *   - Always uses remote structure (topic_prefix + remote_id)
+ *
+ * @param device The device configuration
+ * @param remote The remote broker definition the device is forwarded to
+ * @param side Which broker the topic is used on
+ * @returns Object containing prefix and identifier to use for this device on this broker
+ */
+export function topicStructureFor(
+  device: Device,
+  remote: BrokerDefinition,
+  side: BrokerSide,
+): TopicStructure {
+  if (side === "local" && !device.use_remote_topic_id) {
+    // Use local topic structure
+    return {
+      prefix:
+        remote.local_topic_prefix ||
+        remote.topic_prefix ||
+        DEFAULT_TOPIC_PREFIX,
+      identifier: device.mac,
+    };
+  }
+  // Remote broker, or remote topic structure on the local broker
+  return {
+    prefix: remote.topic_prefix || DEFAULT_TOPIC_PREFIX,
+    identifier: device.remote_id!,
+  };
+}
+
+export function ctrlTopic(
+  { prefix, identifier }: TopicStructure,
+  type: string,
+  kind: MessageKind,
+): string {
+  return `${prefix}${type}/${kind}/${identifier}/ctrl`;
+}
+
+/**
+ * Which kind of message the relay listens to for a device on one side. With
+ * direct forwarding the device is on the local broker, so the relay listens to
+ * its `device` messages there and to `App` messages on the cloud; inverse
+ * forwarding swaps the two.
+ */
+export function subscribedKind(
+  device: Device,
+  side: BrokerSide,
+  inverseDefault?: boolean,
+): MessageKind {
+  let inverseForwarding = device.inverse_forwarding ?? inverseDefault;
+  if (side === "local") {
+    inverseForwarding = !inverseForwarding;
+  }
+  return inverseForwarding ? "device" : "App";
+}
+
+/** The topic the relay subscribes to for a device on one side. */
+export function subscriptionTopicFor(
+  device: Device,
+  remote: BrokerDefinition,
+  side: BrokerSide,
+  inverseDefault?: boolean,
+): string {
+  return ctrlTopic(
+    topicStructureFor(device, remote, side),
+    device.type,
+    subscribedKind(device, side, inverseDefault),
+  );
+}
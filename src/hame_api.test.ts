@@ -0,0 +1,312 @@
+import { test, describe, before, after } from "node:test";
+import assert from "node:assert";
+import { createHash } from "node:crypto";
+import { createServer, RequestListener, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { HameApi, parseRetryAfter } from "./hame_api.js";
+import { logger } from "./logger.js";
+import { TokenCache } from "./token_cache.js";
+
+const devices = [
+  {
+    devid: "0123456789abcdef01234567",
+    name: "Balcony",
+    mac: "aabbccddeeff",
+    type: "HMA-1",
+    version: "226",
+    salt: "s1,s2",
+  },
+];
+
+/** Devices as returned by the login endpoint. */
+const loginDevices = [
+  {
+    devid: "0123456789abcdef01234567",
+    name: "Balcony",
+    sn: "HMA1234567",
+    mac: "aabbccddeeff",
+    type: "HMA-1",
+    access: "1",
+    bluetooth_name: "HM_B2500_eeff",
+  },
+];
+
+const expected = [
+  {
+    ...devices[0],
+    sn: "HMA1234567",
+    bluetooth_name: "HM_B2500_eeff",
+    access: "1",
+  },
+];
+
+const SECRET_MD5 = createHash("md5").update("secret").digest("hex");
+
+let logins = 0;
+let validToken = "";
+
+/**
+ * Minimal stand-in for the Hame cloud API. Every login issues a new token and
+ * invalidates the previous one.
+ */
+const hameApi: RequestListener = (req, res) => {
+  const url = new URL(req.url!, "http://localhost");
+  res.setHeader("Content-Type", "application/json");
+  if (url.pathname === "/app/Solar/v2_get_device.php") {
+    if (url.searchParams.get("pwd") !== SECRET_MD5) {
+      res.end(JSON.stringify({ code: "4", msg: "wrong password", data: "" }));
+      return;
+    }
+    logins++;
+    validToken = `t${logins}`;
+    res.end(
+      JSON.stringify({
+        code: "2",
+        msg: "ok",
+        token: validToken,
+        data: loginDevices,
+      }),
+    );
+  } else if (url.pathname === "/ems/api/v1/getDeviceList") {
+    if (url.searchParams.get("token") !== validToken) {
+      res.end(JSON.stringify({ code: 0, msg: "token invalid", data: [] }));
+      return;
+    }
+    res.end(JSON.stringify({ code: 1, msg: "ok", data: devices }));
+  } else {
+    res.writeHead(404);
+    res.end();
+  }
+};
+
+let rateLimited = 0;
+
+/** Answers the first login with 429 and an immediate Retry-After. */
+const rateLimitOnce: RequestListener = (req, res) => {
+  if (req.url!.startsWith("/app/Solar/") && rateLimited++ === 0) {
+    res.writeHead(429, { "Retry-After": "0" });
+    res.end();
+    return;
+  }
+  hameApi(req, res);
+};
+
+const rateLimitLong: RequestListener = (_req, res) => {
+  res.writeHead(429, { "Retry-After": "3600" });
+  res.end();
+};
+
+let unavailableLogins = 0;
+
+const unavailable: RequestListener = (req, res) => {
+  if (req.url!.startsWith("/app/Solar/")) {
+    unavailableLogins++;
+  }
+  res.writeHead(503);
+  res.end();
+};
+
+let hungRequests = 0;
+
+const hang: RequestListener = () => {
+  hungRequests++;
+};
+
+const notFound: RequestListener = (_req, res) => {
+  res.writeHead(404);
+  res.end();
+};
+
+async function listen(handler: RequestListener): Promise<[Server, string]> {
+  const server = createServer(handler);
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve()),
+  );
+  const { port } = server.address() as AddressInfo;
+  return [server, `http://127.0.0.1:${port}`];
+}
+
+describe("HameApi", () => {
+  let servers: Server[] = [];
+  let apiUrl: string;
+  let brokenUrl: string;
+  let rateLimitOnceUrl: string;
+  let rateLimitLongUrl: string;
+  let hangUrl: string;
+  let unavailableUrl: string;
+
+  before(async () => {
+    // Log lines still in flight at exit can keep the pino transport worker
+    // (and with it the test process) alive.
+    logger.level = "silent";
+    const [api, url] = await listen(hameApi);
+    const [broken, notFoundUrl] = await listen(notFound);
+    const [limitedOnce, limitedOnceUrl] = await listen(rateLimitOnce);
+    const [limitedLong, limitedLongUrl] = await listen(rateLimitLong);
+    const [hung, hungUrl] = await listen(hang);
+    const [down, downUrl] = await listen(unavailable);
+    servers = [api, broken, limitedOnce, limitedLong, hung, down];
+    apiUrl = url;
+    brokenUrl = notFoundUrl;
+    rateLimitOnceUrl = limitedOnceUrl;
+    rateLimitLongUrl = limitedLongUrl;
+    hangUrl = hungUrl;
+    unavailableUrl = downUrl;
+  });
+
+  after(() => {
+    servers.forEach((server) => {
+      server.closeAllConnections();
+      server.close();
+    });
+  });
+
+  test("fetches devices from a custom base URL", async () => {
+    const api = new HameApi(apiUrl);
+    assert.deepStrictEqual(
+      await api.fetchDevices("user@example.com", "secret"),
+      expected,
+    );
+  });
+
+  test("falls back to the next endpoint on a non-retryable error", async () => {
+    const api = new HameApi([brokenUrl, apiUrl]);
+    assert.deepStrictEqual(
+      await api.fetchDevices("user@example.com", "secret"),
+      expected,
+    );
+  });
+
+  test("reports every endpoint when all of them fail", async () => {
+    const api = new HameApi([brokenUrl, `${brokenUrl}/`]);
+    await assert.rejects(
+      api.fetchDevices("user@example.com", "secret"),
+      /All Hame API endpoints failed: .*HTTP 404.*; .*HTTP 404/,
+    );
+  });
+
+  test("a single endpoint rethrows its own error", async () => {
+    const api = new HameApi(brokenUrl);
+    await assert.rejects(
+      api.fetchDevices("user@example.com", "secret"),
+      /HTTP 404: Not Found/,
+    );
+  });
+
+  test("reuses the session token across fetches", async () => {
+    const api = new HameApi(apiUrl, new TokenCache());
+    const before = logins;
+    await api.fetchDevices("user@example.com", "secret");
+    assert.deepStrictEqual(
+      await api.fetchDevices("user@example.com", "secret"),
+      expected,
+      "metadata from the login is kept for cached sessions",
+    );
+    assert.strictEqual(logins - before, 1);
+  });
+
+  test("logs in again when the cached token is rejected", async () => {
+    const tokens = new TokenCache();
+    tokens.set(apiUrl, "user@example.com", "stale");
+    const api = new HameApi(apiUrl, tokens);
+    const before = logins;
+    assert.deepStrictEqual(
+      await api.fetchDevices("user@example.com", "secret"),
+      expected,
+    );
+    assert.strictEqual(logins - before, 1);
+    assert.strictEqual(tokens.get(apiUrl, "user@example.com"), validToken);
+  });
+
+  test("retries HTTP 429 after the Retry-After delay", async () => {
+    const api = new HameApi(rateLimitOnceUrl, new TokenCache());
+    assert.deepStrictEqual(
+      await api.fetchDevices("user@example.com", "secret"),
+      expected,
+    );
+    assert.strictEqual(rateLimited, 2);
+  });
+
+  test("does not wait for a Retry-After beyond the maximum delay", async () => {
+    const api = new HameApi([rateLimitLongUrl, apiUrl], new TokenCache(), {
+      retry: { maxDelayMs: 1000 },
+    });
+    assert.deepStrictEqual(
+      await api.fetchDevices("user@example.com", "secret"),
+      expected,
+    );
+  });
+
+  test("fails over when a request times out", async () => {
+    const before = hungRequests;
+    const api = new HameApi([hangUrl, apiUrl], new TokenCache(), {
+      requestTimeoutMs: 50,
+    });
+    assert.deepStrictEqual(
+      await api.fetchDevices("user@example.com", "secret"),
+      expected,
+    );
+    assert.strictEqual(hungRequests - before, 1);
+  });
+
+  test("retries a failing login only maxRetries times per endpoint", async () => {
+    const api = new HameApi([unavailableUrl, apiUrl], new TokenCache(), {
+      retry: { baseDelayMs: 1 },
+    });
+    assert.deepStrictEqual(
+      await api.fetchDevices("user@example.com", "secret"),
+      expected,
+    );
+    assert.strictEqual(unavailableLogins, 4);
+  });
+
+  test("reports refused connections once retries are exhausted", async () => {
+    const [closed, closedUrl] = await listen(notFound);
+    closed.close();
+    const api = new HameApi(closedUrl, new TokenCache(), {
+      retry: { maxRetries: 1, baseDelayMs: 1 },
+    });
+    await assert.rejects(
+      api.fetchDevices("user@example.com", "secret"),
+      (error: Error & { code?: string }) => error.code === "ECONNREFUSED",
+    );
+  });
+  test("sends a precomputed password hash as is", async () => {
+    const api = new HameApi(apiUrl, new TokenCache());
+    assert.deepStrictEqual(
+      await api.fetchDevices("user@example.com", { md5: SECRET_MD5 }),
+      expected,
+    );
+  });
+
+  test("reports a wrong password", async () => {
+    const api = new HameApi(apiUrl, new TokenCache());
+    await assert.rejects(
+      api.fetchDevices("user@example.com", "wrong"),
+      /Incorrect password for user@example.com/,
+    );
+  });
+});
+
+describe("parseRetryAfter", () => {
+  test("parses delays in seconds", () => {
+    assert.strictEqual(parseRetryAfter("120"), 120000);
+  });
+
+  test("parses HTTP dates relative to now", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    assert.strictEqual(
+      parseRetryAfter("Thu, 01 Jan 2026 00:00:30 GMT", now),
+      30000,
+    );
+    assert.strictEqual(
+      parseRetryAfter("Wed, 31 Dec 2025 23:00:00 GMT", now),
+      0,
+    );
+  });
+
+  test("ignores missing or malformed values", () => {
+    assert.strictEqual(parseRetryAfter(null), undefined);
+    assert.strictEqual(parseRetryAfter("soon"), undefined);
+  });
+});
@@ -1,6 +1,7 @@
 import { createHash } from "crypto";
-import fetch from "node-fetch";
+import fetch, { Response } from "node-fetch";
 import { logger } from "./logger.js";
+import { TokenCache } from "./token_cache.js";
 
 /**
  * Custom error class that includes HTTP status code information
@@ -9,57 +10,134 @@ class HttpError extends Error {
   constructor(
     message: string,
     public readonly statusCode: number,
+    /** Delay requested by the server's `Retry-After` header. */
+    public readonly retryAfterMs?: number,
   ) {
     super(message);
     this.name = "HttpError";
   }
 }
 
-interface RetryOptions {
+/** A request that did not complete within the configured timeout. */
+class RequestTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+    this.name = "RequestTimeoutError";
+  }
+}
+
+/**
+ * Non-success response from the device list endpoint. Its codes are not
+ * documented, so for a cached token this is treated as a rejected session.
+ */
+class DeviceListError extends Error {
+  constructor(
+    message: string,
+    public readonly code: number,
+  ) {
+    super(message);
+    this.name = "DeviceListError";
+  }
+}
+
+export interface RetryOptions {
   maxRetries: number;
   baseDelayMs: number;
+  /** Upper bound for backoff delays and for honoring `Retry-After`. */
   maxDelayMs: number;
   backoffMultiplier: number;
+  /** Fraction (0-1) of each backoff delay that is randomized. */
+  jitter: number;
 }
 
-const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
   maxRetries: 3,
   baseDelayMs: 1000,
   maxDelayMs: 10000,
   backoffMultiplier: 2,
+  jitter: 0.2,
 };
 
+export const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+
+export interface HameApiOptions {
+  retry?: Partial<RetryOptions>;
+  requestTimeoutMs?: number;
+}
+
+// Network errors that are usually transient, e.g. while the host (such as a
+// Home Assistant box that is still booting) has no network or DNS yet.
+const RETRYABLE_ERROR_CODES = new Set([
+  "ETIMEDOUT",
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "EAI_AGAIN",
+]);
+
 /**
  * Determines if an error should be retried based on HTTP status codes
- * Uses a simple, reliable approach: only retry on known server errors and timeouts
+ * Uses a simple, reliable approach: only retry on known server errors, rate
+ * limiting and transient network failures
  */
 function shouldRetryError(error: Error, statusCode?: number): boolean {
   // If we have an HTTP status code, use standard HTTP semantics
   if (statusCode !== undefined) {
-    // Only retry server errors (5xx)
-    return statusCode >= 500;
+    // Retry server errors (5xx) and rate limiting
+    return statusCode >= 500 || statusCode === 429;
+  }
+
+  // A hung endpoint would block startup for every retry; fail over instead
+  if (error instanceof RequestTimeoutError) {
+    return false;
   }
 
   // For network errors without status codes, only retry specific known transient issues
   // Check Node.js system error codes (most reliable)
   if ("code" in error && typeof (error as any).code === "string") {
-    const code = (error as any).code;
-    return code === "ETIMEDOUT" || code === "ECONNRESET";
+    return RETRYABLE_ERROR_CODES.has((error as any).code);
   }
 
   // Don't retry anything else - be conservative
   return false;
 }
 
+/**
+ * Parses a `Retry-After` header (delay in seconds or an HTTP date) into
+ * milliseconds from `now`.
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now: number = Date.now(),
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function backoffDelay(attempt: number, options: RetryOptions): number {
+  const { baseDelayMs, maxDelayMs, backoffMultiplier, jitter } = options;
+  const delay = Math.min(
+    baseDelayMs * Math.pow(backoffMultiplier, attempt - 1),
+    maxDelayMs,
+  );
+  // Spread retries of several accounts/instances instead of hitting the API
+  // in lockstep.
+  return Math.round(delay * (1 - jitter * Math.random()));
+}
+
 async function withRetry<T>(
   operation: () => Promise<T>,
   operationName: string,
   options: Partial<RetryOptions> = {},
 ): Promise<T> {
-  const { maxRetries, baseDelayMs, maxDelayMs, backoffMultiplier } = {
-    ...DEFAULT_RETRY_OPTIONS,
-    ...options,
-  };
+  const resolved = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  const { maxRetries, maxDelayMs } = resolved;
 
   let lastError: Error;
   let lastStatusCode: number | undefined;
@@ -81,14 +159,22 @@ async function withRetry<T>(
         lastStatusCode = undefined;
       }
 
+      const retryAfterMs =
+        error instanceof HttpError ? error.retryAfterMs : undefined;
+      if (retryAfterMs !== undefined && retryAfterMs > maxDelayMs) {
+        // Waiting that long would block startup; let the caller fall back to
+        // another endpoint or its own, slower retry schedule.
+        logger.warn(
+          `${operationName} failed: ${lastError.message}. Server asked to retry after ${retryAfterMs}ms, which exceeds the maximum delay of ${maxDelayMs}ms. Not retrying.`,
+        );
+        break;
+      }
+
       if (
         attempt <= maxRetries &&
         shouldRetryError(lastError, lastStatusCode)
       ) {
-        const delay = Math.min(
-          baseDelayMs * Math.pow(backoffMultiplier, attempt - 1),
-          maxDelayMs,
-        );
+        const delay = retryAfterMs ?? backoffDelay(attempt, resolved);
 
         const statusInfo = lastStatusCode ? ` (HTTP ${lastStatusCode})` : "";
         logger.warn(
@@ -145,6 +231,14 @@ export interface HameDeviceListResponse {
   }>;
 }
 
+/** Per-device fields only returned by the login endpoint. */
+export interface DeviceMetadata {
+  devid: string;
+  sn?: string;
+  bluetooth_name?: string;
+  access?: string;
+}
+
 export interface DeviceInfo {
   devid: string;
   name: string;
@@ -152,10 +246,61 @@ export interface DeviceInfo {
   type: string;
   version: string;
   salt?: string; // Optional salt field from device list
+  account?: string; // Hame account (mailbox) the device was fetched from
+  sn?: string;
+  bluetooth_name?: string;
+  access?: string;
 }
 
+/**
+ * Login response devices reduced to {@link DeviceMetadata}. Empty values are
+ * dropped; `data` is a message string instead of a list for some responses.
+ */
+function toDeviceMetadata(data: HameApiResponse["data"]): DeviceMetadata[] {
+  if (!Array.isArray(data)) {
+    return [];
+  }
+  return data.map(({ devid, sn, bluetooth_name, access }) => {
+    const metadata: DeviceMetadata = { devid };
+    if (sn) metadata.sn = sn;
+    if (bluetooth_name) metadata.bluetooth_name = bluetooth_name;
+    if (access) metadata.access = access;
+    return metadata;
+  });
+}
+
+export const DEFAULT_API_BASE_URL = "https://eu.hamedata.com";
+
+/**
+ * The API only ever receives the MD5 hash of the password, so callers may
+ * pass the precomputed hash instead of the plaintext.
+ */
+export type Password = string | { md5: string };
+
 export class HameApi {
-  constructor(private readonly baseUrl: string = "https://eu.hamedata.com") {}
+  private readonly baseUrls: string[];
+  private readonly retry: RetryOptions;
+  private readonly requestTimeoutMs: number;
+
+  /**
+   * @param baseUrls One base URL or an ordered list of endpoints. Later entries
+   * are only used when all earlier ones failed.
+   * @param tokens Session tokens to reuse; share one cache between instances
+   * to avoid logging in on every fetch.
+   */
+  constructor(
+    baseUrls: string | string[] = DEFAULT_API_BASE_URL,
+    private readonly tokens: TokenCache = new TokenCache(),
+    options: HameApiOptions = {},
+  ) {
+    this.baseUrls = Array.isArray(baseUrls) ? baseUrls : [baseUrls];
+    if (this.baseUrls.length === 0) {
+      throw new Error("At least one Hame API base URL is required");
+    }
+    this.retry = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+    this.requestTimeoutMs =
+      options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+  }
 
   private get headers() {
     return {
@@ -163,94 +308,205 @@ export class HameApi {
     } as Record<string, string>;
   }
 
-  async fetchDeviceToken(
-    mailbox: string,
-    password: string,
-  ): Promise<HameApiResponse> {
-    const hashedPassword = createHash("md5").update(password).digest("hex");
-    const url = new URL("/app/Solar/v2_get_device.php", this.baseUrl);
-    url.searchParams.append("mailbox", mailbox);
-    url.searchParams.append("pwd", hashedPassword);
-
-    logger.info(`Fetching device token for ${mailbox}...`);
-
-    return withRetry(async () => {
-      const resp = await fetch(url.toString(), { headers: this.headers });
+  /**
+   * GETs `url` and parses the JSON body. The timeout covers the whole
+   * exchange, including reading the body, so a hung endpoint fails over.
+   */
+  private async getJson<T>(url: URL): Promise<T> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.requestTimeoutMs);
+    try {
+      const resp: Response = await fetch(url.toString(), {
+        headers: this.headers,
+        signal: controller.signal,
+      });
 
       // Check HTTP status first - we have the response object here
       if (!resp.ok) {
         throw new HttpError(
           `HTTP ${resp.status}: ${resp.statusText}`,
           resp.status,
+          parseRetryAfter(resp.headers.get("retry-after")),
         );
       }
 
-      const data = (await resp.json()) as HameApiResponse;
-
-      if (data.code === "4") {
-        throw new Error(
-          `Incorrect password for ${mailbox}. Please double-check the credentials configured for the add-on and try again. (${data.code} - ${data.msg})`,
-        );
+      return (await resp.json()) as T;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new RequestTimeoutError(this.requestTimeoutMs);
       }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
 
-      if (data.code !== "2" || !data.token) {
-        throw new Error(
-          `Unexpected API response code: ${data.code} - ${data.msg}`,
-        );
-      }
+  async fetchDeviceToken(
+    mailbox: string,
+    password: Password,
+    baseUrl: string = this.baseUrls[0],
+  ): Promise<HameApiResponse> {
+    const hashedPassword =
+      typeof password === "string"
+        ? createHash("md5").update(password).digest("hex")
+        : password.md5;
+    const url = new URL("/app/Solar/v2_get_device.php", baseUrl);
+    url.searchParams.append("mailbox", mailbox);
+    url.searchParams.append("pwd", hashedPassword);
+
+    logger.info(`Fetching device token for ${mailbox}...`);
+
+    return withRetry(
+      async () => {
+        const data = await this.getJson<HameApiResponse>(url);
 
-      return data;
-    }, `Fetch device token for ${mailbox}`);
+        if (data.code === "4") {
+          throw new Error(
+            `Incorrect password for ${mailbox}. Please double-check the credentials configured for the add-on and try again. (${data.code} - ${data.msg})`,
+          );
+        }
+
+        if (data.code !== "2" || !data.token) {
+          throw new Error(
+            `Unexpected API response code: ${data.code} - ${data.msg}`,
+          );
+        }
+
+        return data;
+      },
+      `Fetch device token for ${mailbox}`,
+      this.retry,
+    );
   }
 
   async fetchDeviceList(
     mailbox: string,
     token: string,
+    baseUrl: string = this.baseUrls[0],
   ): Promise<HameDeviceListResponse> {
     const url = new URL(
       "/ems/api/v1/getDeviceList",
-      this.baseUrl.replace(/\/$/, ""),
+      baseUrl.replace(/\/$/, ""),
     );
     url.searchParams.append("mailbox", mailbox);
     url.searchParams.append("token", token);
 
     logger.info("Fetching device list...");
 
-    return withRetry(async () => {
-      const resp = await fetch(url.toString(), { headers: this.headers });
+    return withRetry(
+      async () => {
+        const data = await this.getJson<HameDeviceListResponse>(url);
 
-      // Check HTTP status first - we have the response object here
-      if (!resp.ok) {
-        throw new HttpError(
-          `HTTP ${resp.status}: ${resp.statusText}`,
-          resp.status,
-        );
-      }
+        if (data.code !== 1) {
+          throw new DeviceListError(
+            `Unexpected API response from device list: ${data.code} - ${data.msg}`,
+            data.code,
+          );
+        }
 
-      const data = (await resp.json()) as HameDeviceListResponse;
+        return data;
+      },
+      "Fetch device list",
+      this.retry,
+    );
+  }
 
-      if (data.code !== 1) {
-        throw new Error(
-          `Unexpected API response from device list: ${data.code} - ${data.msg}`,
-        );
+  /**
+   * Logs in and fetches the device list, trying each configured endpoint in
+   * order until one succeeds.
+   */
+  async fetchDevices(
+    mailbox: string,
+    password: Password,
+  ): Promise<DeviceInfo[]> {
+    const errors: string[] = [];
+    for (const [index, baseUrl] of this.baseUrls.entries()) {
+      try {
+        return await this.fetchDevicesFrom(mailbox, password, baseUrl);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        errors.push(`${baseUrl}: ${message}`);
+        if (index < this.baseUrls.length - 1) {
+          logger.warn(
+            `Hame API endpoint ${baseUrl} failed (${message}). Falling back to ${this.baseUrls[index + 1]}`,
+          );
+        } else if (this.baseUrls.length === 1) {
+          throw error;
+        }
       }
+    }
+    throw new Error(`All Hame API endpoints failed: ${errors.join("; ")}`);
+  }
 
-      return data;
-    }, "Fetch device list");
+  private async fetchDevicesFrom(
+    mailbox: string,
+    password: Password,
+    baseUrl: string,
+  ): Promise<DeviceInfo[]> {
+    // Each request retries on its own; retrying the whole sequence as well
+    // would multiply the attempts before falling back to the next endpoint.
+    const list =
+      (await this.fetchDeviceListWithCachedToken(mailbox, baseUrl)) ??
+      (await this.fetchDeviceList(
+        mailbox,
+        await this.login(mailbox, password, baseUrl),
+        baseUrl,
+      ));
+    logger.info(
+      `Successfully fetched ${list.data.length} devices from Hame API`,
+    );
+    const metadata = new Map(
+      this.tokens.metadata(baseUrl, mailbox).map((m) => [m.devid, m]),
+    );
+    // The device list has no serial, Bluetooth name or access level;
+    // those come from the login response.
+    return list.data.map((device) => ({
+      ...metadata.get(device.devid),
+      ...device,
+    }));
   }
 
-  async fetchDevices(mailbox: string, password: string): Promise<DeviceInfo[]> {
-    return withRetry(
-      async () => {
-        const tokenResp = await this.fetchDeviceToken(mailbox, password);
-        const list = await this.fetchDeviceList(mailbox, tokenResp.token!);
-        logger.info(
-          `Successfully fetched ${list.data.length} devices from Hame API`,
-        );
-        return list.data;
-      },
-      "Fetch devices from Hame API",
-      { maxRetries: 2 }, // Fewer retries for the overall operation since individual calls already retry
+  private async login(
+    mailbox: string,
+    password: Password,
+    baseUrl: string,
+  ): Promise<string> {
+    const { token, data } = await this.fetchDeviceToken(
+      mailbox,
+      password,
+      baseUrl,
     );
+    this.tokens.set(baseUrl, mailbox, token!, toDeviceMetadata(data));
+    return token!;
+  }
+
+  /**
+   * Resolves to `undefined` when there is no cached token or the API rejected
+   * it, in which case the caller logs in again.
+   */
+  private async fetchDeviceListWithCachedToken(
+    mailbox: string,
+    baseUrl: string,
+  ): Promise<HameDeviceListResponse | undefined> {
+    const token = this.tokens.get(baseUrl, mailbox);
+    if (!token) {
+      return undefined;
+    }
+    try {
+      return await this.fetchDeviceList(mailbox, token, baseUrl);
+    } catch (error) {
+      const rejected =
+        error instanceof DeviceListError ||
+        (error instanceof HttpError &&
+          (error.statusCode === 401 || error.statusCode === 403));
+      if (!rejected) {
+        throw error;
+      }
+      logger.info(
+        `Cached Hame API token for ${mailbox} was rejected; logging in again`,
+      );
+      this.tokens.invalidate(baseUrl, mailbox);
+      return undefined;
+    }
   }
 }
@@ -1,10 +1,54 @@
 import { createServer, IncomingMessage, ServerResponse } from "http";
 import { MqttClient } from "mqtt";
 import { logger } from "./logger.js";
+import { DeviceRateLimitStats } from "./rate_limiter.js";
+
+/** Per-device entry reported on the health endpoint. */
+export interface DeviceStatus {
+  device_id: string;
+  name?: string;
+  type: string;
+  broker_id?: string;
+  account?: string;
+  sn?: string;
+  bluetooth_name?: string;
+  access?: string;
+  /** `access` is not `"1"`: another account shared the device with this one. */
+  shared?: boolean;
+}
+
+/**
+ * Sizes of a forwarder's message history maps. They should stay small;
+ * steady growth on a long-running relay points to a leak.
+ */
+export interface MessageHistoryStats {
+  pending_requests: number;
+  processed_messages: number;
+  telemetry: number;
+}
+
+/** Per-forwarder counters reported on the health endpoint. */
+export interface ForwarderStatsSource {
+  getMessageHistoryStats(): MessageHistoryStats;
+  /** Cloud commands blocked by `command_rules`, by device id. */
+  getDeniedCommands(): Record<string, number>;
+  /** Messages delayed or dropped by `rate_limit`, by device id. */
+  getRateLimitStats(): Record<string, DeviceRateLimitStats>;
+}
+
+/**
+ * `starting` until the relay is first up, `degraded` while startup keeps
+ * failing and is being retried.
+ */
+export type RelayStatus = "starting" | "ok" | "degraded";
 
 export class HealthServer {
   private server: ReturnType<typeof createServer>;
   private brokers: Record<string, MqttClient> = {};
+  private forwarders: Record<string, ForwarderStatsSource> = {};
+  private devices: DeviceStatus[] = [];
+  private status: RelayStatus = "starting";
+  private error?: { message: string; since: string };
 
   constructor(port: number = 8080) {
     this.server = createServer(this.handleRequest.bind(this));
@@ -17,27 +61,80 @@ export class HealthServer {
     this.brokers[id] = client;
   }
 
+  public removeBroker(id: string): void {
+    delete this.brokers[id];
+    delete this.forwarders[id];
+  }
+
+  public addForwarderStats(id: string, source: ForwarderStatsSource): void {
+    this.forwarders[id] = source;
+  }
+
+  public setDevices(devices: DeviceStatus[]): void {
+    this.devices = devices;
+  }
+
+  public setReady(): void {
+    this.status = "ok";
+    this.error = undefined;
+  }
+
+  /** Reports a failed startup; the first failure's time is kept as `since`. */
+  public setDegraded(error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    this.status = "degraded";
+    this.error = {
+      message,
+      since: this.error?.since ?? new Date().toISOString(),
+    };
+  }
+
   private handleRequest(req: IncomingMessage, res: ServerResponse): void {
     if (req.url === "/health" && req.method === "GET") {
       const brokerStatuses: Record<string, boolean> = {};
       for (const [id, client] of Object.entries(this.brokers)) {
         brokerStatuses[id] = client.connected;
       }
+      const messageHistory: Record<string, MessageHistoryStats> = {};
+      const deniedCommands: Record<string, number> = {};
+      const rateLimited: Record<string, DeviceRateLimitStats> = {};
+      for (const [id, source] of Object.entries(this.forwarders)) {
+        messageHistory[id] = source.getMessageHistoryStats();
+        Object.assign(deniedCommands, source.getDeniedCommands());
+        Object.assign(rateLimited, source.getRateLimitStats());
+      }
       const status = {
-        status: "ok",
+        status: this.status,
+        ready: this.status === "ok",
+        error: this.error,
         brokers: brokerStatuses,
+        devices: this.devices,
+        message_history: messageHistory,
+        denied_commands: deniedCommands,
+        rate_limited: rateLimited,
         timestamp: new Date().toISOString(),
       };
 
+      // Always 200 while the process is alive: the add-on watchdog restarts
+      // on any other status, which would turn a degraded relay into a
+      // restart loop. Use /ready to probe whether it is forwarding.
       res.writeHead(200, { "Content-Type": "application/json" });
       res.end(JSON.stringify(status));
+    } else if (req.url === "/ready" && req.method === "GET") {
+      const ready = this.status === "ok";
+      res.writeHead(ready ? 200 : 503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ ready, error: this.error }));
     } else {
       res.writeHead(404);
       res.end();
     }
   }
 
-  public close(): void {
-    this.server.close();
+  public close(): Promise<void> {
+    return new Promise((resolve) => {
+      this.server.close(() => resolve());
+      // Don't wait for keep-alive connections of health check clients
+      this.server.closeIdleConnections();
+    });
   }
 }
@@ -10,6 +10,8 @@ export const logger = pino({
           colorize: false,
           translateTime: "yyyy-mm-dd HH:MM:ss",
           ignore: "pid,hostname",
+          // CLI commands print their result on stdout and log to stderr.
+          destination: process.env.LOG_DESTINATION === "stderr" ? 2 : 1,
         },
       },
     ],
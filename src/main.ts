@@ -1,421 +1,282 @@
-import { readFileSync } from "fs";
-import { join, dirname } from "path";
-import { calculateNewVersionTopicId } from "./encryption.js";
-import { HealthServer } from "./health.js";
-import { logger } from "./logger.js";
-import { HameApi, DeviceInfo } from "./hame_api.js";
-import { MQTTForwarder } from "./mqtt_forwarder.js";
-import { CommonHelper } from "./topic.js";
+import { ConfigWatcher } from "./config_watcher.js";
 import {
-  brokerForVersion,
-  usesRemoteTopicId,
-  inverseForwardingPolicy,
-  isAstraMeterFamily,
-  isAstraMeterSyntheticMac,
-  supportsVid,
-} from "./device_matrix.js";
+  ConfigPaths,
+  loadConfiguration,
+  resolveConfigPaths,
+} from "./config.js";
+import { DeviceCache } from "./device_cache.js";
 import {
-  Device,
-  BrokerDefinition,
-  ForwarderConfig,
-  MainConfig,
-  DeviceTypeIdentifier,
-  knownDeviceTypes,
-} from "./types.js";
+  DEFAULT_DEVICE_REFRESH_INTERVAL_MINUTES,
+  diffDevices,
+  fetchApiDevices,
+  isEmptyDiff,
+  isManualMode,
+  resolveAccounts,
+  logDeviceDiff,
+} from "./devices.js";
+import { HealthServer } from "./health.js";
+import { logger } from "./logger.js";
+import { buildRelayPlan, logPlanSummary } from "./plan.js";
+import { Relay } from "./relay.js";
+import { TokenCache } from "./token_cache.js";
+import { Device } from "./types.js";
 
-function processBrokerProperties(
-  brokers: Record<string, BrokerDefinition>,
-  brokersConfigPath: string,
-): Record<string, BrokerDefinition> {
-  const processedBrokers: Record<string, BrokerDefinition> = {};
-  const configDir = dirname(brokersConfigPath);
-  for (const [brokerId, broker] of Object.entries(brokers)) {
-    const processedBroker: BrokerDefinition = { ...broker };
-    for (const prop of Object.keys(processedBroker)) {
-      const key = prop as keyof BrokerDefinition;
-      const value = processedBroker[key];
-      if (typeof value === "string" && value.startsWith("@")) {
-        const filePath = value.substring(1);
-        try {
-          const absolutePath = join(configDir, filePath);
-          (processedBroker as any)[key] = readFileSync(
-            absolutePath,
-            "utf8",
-          ).trim();
-          logger.debug(`Loaded ${prop} from file: ${absolutePath}`);
-        } catch (error) {
-          logger.error(
-            error,
-            `Failed to load ${prop} from file ${filePath} for broker ${brokerId}`,
-          );
-          throw error;
-        }
-      }
-    }
-    processedBrokers[brokerId] = processedBroker;
+// Backoff for re-fetching the device list while at least one account could
+// only be served from the cache.
+const FETCH_RETRY_INITIAL_MS = 60 * 1000;
+const FETCH_RETRY_MAX_MS = 30 * 60 * 1000;
+
+// Backoff for retrying a failed startup (config, device list or plan).
+const STARTUP_RETRY_INITIAL_MS = 10 * 1000;
+const STARTUP_RETRY_MAX_MS = 5 * 60 * 1000;
+
+// Docker and the Home Assistant supervisor kill the container 10 seconds
+// after SIGTERM; finish before that. Override with SHUTDOWN_TIMEOUT_MS.
+const DEFAULT_SHUTDOWN_TIMEOUT_MS = 8 * 1000;
+
+function shutdownTimeoutMs(): number {
+  const raw = process.env.SHUTDOWN_TIMEOUT_MS;
+  if (!raw) {
+    return DEFAULT_SHUTDOWN_TIMEOUT_MS;
+  }
+  const value = Number(raw);
+  if (isNaN(value) || value <= 0) {
+    logger.warn(
+      `Invalid SHUTDOWN_TIMEOUT_MS "${raw}"; using ${DEFAULT_SHUTDOWN_TIMEOUT_MS}ms`,
+    );
+    return DEFAULT_SHUTDOWN_TIMEOUT_MS;
   }
-  return processedBrokers;
+  return value;
 }
 
 /**
- * Picks the broker for a device based on the device matrix. Devices without a
- * known firmware version are left unset so they fall back to the configured
- * default broker.
+ * Loads the configuration, fetches the devices and starts forwarding. Throws
+ * before touching any broker if a step fails. Resolves to a function that
+ * stops the relay and everything it scheduled, and resolves once the
+ * forwarders have disconnected.
  */
-function autoDetermineBroker(device: Device): string | undefined {
-  if (device.version == null) {
-    return undefined;
-  }
-  return brokerForVersion(device.type, device.version);
-}
+async function startRelay(
+  paths: ConfigPaths,
+  cache: DeviceCache,
+  tokens: TokenCache,
+  healthServer: HealthServer,
+): Promise<() => Promise<void>> {
+  const { configPath, brokersPath } = paths;
+  let current = loadConfiguration(configPath, brokersPath);
+  const initial = await fetchApiDevices(current.config, cache, tokens);
+  let devices: Device[] = initial.devices;
+
+  const plan = buildRelayPlan(current.config, current.brokers, devices);
+  logPlanSummary(plan, current.config);
 
-function cleanAndValidate(config: { devices: Device[] }): void {
-  logger.debug(`Validating ${config.devices.length} devices...`);
-  logger.debug(`Found ${config.devices.length} devices in config file`);
-  if (config.devices.length === 0) {
-    throw new Error("No devices specified in config file");
+  const relay = new Relay(healthServer);
+  try {
+    relay.apply(plan);
+  } catch (error) {
+    // e.g. unreadable certificates; drop forwarders created before the failure
+    relay.close();
+    throw error;
   }
-  const remainingDevices: Device[] = [];
-  const errors: string[] = [];
-  for (const device of config.devices) {
-    logger.debug(`Validating device: ${device.device_id}`);
-    try {
-      if (!device.device_id) {
-        throw new Error("Device ID is required");
-      }
-      if (!device.mac) {
-        throw new Error("MAC address is required");
-      }
-      if (!device.type) {
-        throw new Error("Device type is required");
-      }
-      device.device_id = device.device_id.trim();
-      device.mac = device.mac.trim().replace(/:/g, "").toLowerCase();
-      device.type = device.type.trim().toUpperCase() as DeviceTypeIdentifier;
+
+  // Configuration reloads and device refreshes both re-plan the relay; run
+  // them one at a time so neither applies a plan built from stale state.
+  let queue: Promise<void> = Promise.resolve();
+  const exclusive = (task: () => Promise<void>): Promise<void> => {
+    const run = queue.then(task);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  const watcher = new ConfigWatcher(current.files, () =>
+    exclusive(async () => {
+      logger.info("Configuration change detected, reloading...");
+      const next = loadConfiguration(configPath, brokersPath);
+      let nextDevices = devices;
+      let complete = true;
       if (
-        device.device_id.length !== 12 &&
-        (device.device_id.length < 22 || device.device_id.length > 24)
+        JSON.stringify(resolveAccounts(next.config)) !==
+        JSON.stringify(resolveAccounts(current.config))
       ) {
-        throw new Error(
-          "Device ID must be between 22 and 24 or exactly 12 characters long",
-        );
+        ({ devices: nextDevices, complete } = await fetchApiDevices(
+          next.config,
+          cache,
+          tokens,
+        ));
       }
-      if (!/^[0-9A-Fa-f]{12}$/.test(device.mac)) {
-        throw new Error(
-          "MAC address must be a 12-character hexadecimal string",
-        );
+      const nextPlan = buildRelayPlan(next.config, next.brokers, nextDevices);
+      logPlanSummary(nextPlan, next.config);
+      // The relay runs the new plan even if one of its forwarders fails to
+      // start, so track it before applying; the next change retries it.
+      const previous = current.config;
+      current = next;
+      devices = nextDevices;
+      watcher.setFiles(next.files);
+      if (
+        next.config.device_refresh_interval_minutes !==
+          previous.device_refresh_interval_minutes ||
+        isManualMode(next.config) !== isManualMode(previous)
+      ) {
+        scheduleRefresh();
       }
-      if (device.type && !knownDeviceTypes.includes(device.type)) {
-        logger.warn(
-          `Unknown device type: ${device.type}. This device will likely not be forwarded.`,
-        );
+      if (!complete) {
+        retryUntilComplete(FETCH_RETRY_INITIAL_MS);
       }
-      remainingDevices.push(device);
-    } catch (error) {
-      errors.push(`Device ${device.device_id}: ${(error as Error).message}`);
-    }
-  }
-  config.devices = remainingDevices;
-
-  if (errors.length > 0) {
-    logger.debug(`Found ${errors.length} errors in devices`);
-    if (config.devices.length === 0) {
-      throw new Error(`All devices failed validation:\n${errors.join("\n")}`);
-    } else {
-      logger.warn(`Some devices failed validation:\n${errors.join("\n")}`);
-    }
-  }
-}
-
-async function start() {
-  try {
-    const configPath = process.env.CONFIG_PATH || "./config/config.json";
-    const brokersPath = process.env.BROKERS_PATH || "./brokers.json";
-    const config = JSON.parse(readFileSync(configPath, "utf8")) as MainConfig;
-    let brokers: Record<string, BrokerDefinition>;
-    try {
-      const rawBrokers = JSON.parse(
-        readFileSync(brokersPath, "utf8"),
-      ) as Record<string, BrokerDefinition>;
-      brokers = processBrokerProperties(rawBrokers, brokersPath);
-    } catch (err) {
-      logger.error(err, `Failed to load brokers config at ${brokersPath}`);
-      throw err;
-    }
-
-    // Username and password are now required since we need salt data
-    if (!config.username || !config.password) {
-      throw new Error(
-        "Username and password are required to fetch device information and salt data from the Hame API",
-      );
-    }
+      relay.apply(nextPlan);
+      logger.info("Configuration reloaded");
+    }),
+  );
 
-    logger.info("Fetching devices from Hame API...");
-    try {
-      const api = new HameApi();
-      const apiDevicesRaw: DeviceInfo[] = await api.fetchDevices(
-        config.username,
-        config.password,
-      );
-
-      if (apiDevicesRaw.length === 0) {
-        throw new Error(
-          "No devices found in your Hame account. Please check your credentials and ensure you have devices registered.",
-        );
+  // Resolves to whether every account could be fetched.
+  const refreshDevices = (): Promise<boolean> => {
+    let complete = false;
+    return exclusive(async () => {
+      logger.debug("Refreshing device list from Hame API...");
+      const result = await fetchApiDevices(current.config, cache, tokens);
+      const nextDevices = result.devices;
+      complete = result.complete;
+      const diff = diffDevices(devices, nextDevices);
+      if (isEmptyDiff(diff)) {
+        logger.debug("Device list unchanged");
+        return;
       }
-
-      const apiDevices: Device[] = apiDevicesRaw.map((device) => {
-        let deviceType = device.type as DeviceTypeIdentifier;
-        if (!knownDeviceTypes.includes(deviceType)) {
-          logger.warn(
-            `Unknown device type from API: ${device.type}. Using as-is.`,
-          );
-        }
-        const v = parseInt(device.version, 10);
-        return {
-          device_id: device.devid,
-          mac: device.mac,
-          type: deviceType,
-          name: device.name,
-          version: isNaN(v) ? 1 : v,
-          salt: device.salt,
-        } as Device;
-      });
-
-      config.devices = apiDevices;
-      logger.info(
-        `Successfully retrieved ${apiDevices.length} devices from API`,
+      logDeviceDiff(diff);
+      const nextPlan = buildRelayPlan(
+        current.config,
+        current.brokers,
+        nextDevices,
       );
-    } catch (apiError) {
-      logger.error(apiError, "Failed to fetch devices from Hame API");
-      throw new Error(
-        `Unable to fetch device information from Hame API: ${apiError instanceof Error ? apiError.message : String(apiError)}`,
-      );
-    }
-
-    // Ensure TypeScript knows devices is now defined
-    const devicesConfig = config as MainConfig & { devices: Device[] };
+      logPlanSummary(nextPlan, current.config);
+      devices = nextDevices;
+      relay.apply(nextPlan);
+    }).then(
+      () => complete,
+      (error) => {
+        logger.error(error, "Device refresh failed");
+        return false;
+      },
+    );
+  };
 
-    // Apply selective inverse forwarding logic
-    const selectiveInverseDeviceIds = new Set<string>();
-    if (config.inverse_forwarding_device_ids) {
-      const deviceIds = config.inverse_forwarding_device_ids
-        .split(",")
-        .map((id) => id.trim())
-        .filter((id) => id.length > 0);
-      deviceIds.forEach((id) => selectiveInverseDeviceIds.add(id));
-      logger.info(
-        `Selective inverse forwarding enabled for device IDs: ${Array.from(selectiveInverseDeviceIds).join(", ")}`,
-      );
-    }
-
-    for (const device of devicesConfig.devices) {
-      // Set inverse forwarding based on device type and configuration
-      if (device.inverse_forwarding === undefined) {
-        if (inverseForwardingPolicy(device.type) === "selectable") {
-          // For selectable device types, check if device ID is in the list
-          device.inverse_forwarding = selectiveInverseDeviceIds.has(
-            device.device_id,
-          );
-          logger.debug(
-            `Device ${device.device_id} (${device.type}): inverse_forwarding = ${device.inverse_forwarding} (selective)`,
-          );
-        } else {
-          // For all other device types, always use inverse forwarding
-          device.inverse_forwarding = true;
-          logger.debug(
-            `Device ${device.device_id} (${device.type}): inverse_forwarding = true (automatic)`,
-          );
-        }
-      } else {
-        logger.debug(
-          `Device ${device.device_id} (${device.type}): inverse_forwarding = ${device.inverse_forwarding} (explicit)`,
-        );
-      }
+  let refreshTimer: NodeJS.Timeout | undefined;
+  const scheduleRefresh = () => {
+    clearInterval(refreshTimer);
+    const minutes =
+      current.config.device_refresh_interval_minutes ??
+      DEFAULT_DEVICE_REFRESH_INTERVAL_MINUTES;
+    if (isManualMode(current.config)) {
+      logger.debug("Manual mode - no device list refresh");
+    } else if (minutes > 0) {
+      logger.info(`Refreshing device list every ${minutes} minutes`);
+      refreshTimer = setInterval(refreshDevices, minutes * 60 * 1000);
+    } else {
+      logger.info("Periodic device list refresh disabled");
     }
+  };
+  scheduleRefresh();
 
-    // Apply global inverse_forwarding flip if enabled
-    if (config.inverse_forwarding === true) {
-      logger.info(
-        "Global inverse_forwarding flag is true - flipping all device settings",
-      );
-      for (const device of devicesConfig.devices) {
-        const originalValue = device.inverse_forwarding;
-        device.inverse_forwarding = !device.inverse_forwarding;
-        logger.debug(
-          `Device ${device.device_id} (${device.type}): inverse_forwarding flipped from ${originalValue} to ${device.inverse_forwarding} (global flip)`,
-        );
+  let retryTimer: NodeJS.Timeout | undefined;
+  function retryUntilComplete(delay: number): void {
+    clearTimeout(retryTimer);
+    logger.info(
+      `Retrying to fetch devices from Hame API in ${Math.round(delay / 1000)}s`,
+    );
+    retryTimer = setTimeout(async () => {
+      if (await refreshDevices()) {
+        logger.info("Hame API reachable again; device list is up to date");
+        return;
       }
-    }
+      retryUntilComplete(Math.min(delay * 2, FETCH_RETRY_MAX_MS));
+    }, delay);
+  }
+  if (!initial.complete) {
+    retryUntilComplete(FETCH_RETRY_INITIAL_MS);
+  }
 
-    for (const device of devicesConfig.devices) {
-      if (!device.broker_id) {
-        const auto = autoDetermineBroker(device);
-        if (auto) {
-          device.broker_id = auto;
-          logger.info(
-            `Auto-selected broker ${auto} for device ${device.device_id}`,
-          );
-        }
-      }
-    }
+  return async () => {
+    clearInterval(refreshTimer);
+    clearTimeout(retryTimer);
+    watcher.close();
+    await relay.shutdown();
+  };
+}
 
-    cleanAndValidate(devicesConfig);
+/**
+ * Starts the health server, then the relay. A failed startup does not exit:
+ * the health endpoint reports the failure and startup is retried with
+ * backoff, or immediately when config.json or brokers.json change. SIGTERM
+ * and SIGINT disconnect from all brokers before exiting.
+ */
+async function start() {
+  const paths = resolveConfigPaths();
+  const cache = new DeviceCache(paths.cachePath);
+  const tokens = new TokenCache(paths.tokenCachePath);
+  const healthServer = new HealthServer();
 
-    for (const device of devicesConfig.devices) {
-      if (
-        isAstraMeterFamily(device.type) &&
-        isAstraMeterSyntheticMac(device.mac) &&
-        device.inverse_forwarding
-      ) {
-        device.inverse_forwarding = false;
-        logger.info(
-          `Device ${device.device_id} (${device.type}): AstraMeter synthetic MAC — inverse forwarding disabled`,
-        );
-      }
-    }
+  let stopRelay: (() => Promise<void>) | undefined;
+  let starting = false;
+  let stopping = false;
+  let delay = STARTUP_RETRY_INITIAL_MS;
+  let startupTimer: NodeJS.Timeout | undefined;
+  let startupWatcher: ConfigWatcher | undefined;
 
-    const defaultId = config.default_broker_id || "hame-2024";
-    const devicesByBroker: Record<string, Device[]> = {};
-    for (const device of devicesConfig.devices) {
-      const brokerId = device.broker_id || defaultId;
-      logger.debug(
-        `Using broker ID: ${brokerId} for device ${device.device_id}`,
-      );
-      const broker = brokers[brokerId];
-      if (!broker) {
-        throw new Error(`Broker '${brokerId}' not defined`);
-      }
-      device.broker_id = brokerId;
-      if (!device.remote_id) {
-        // Cloud placeholder MACs from AstraMeter are not real firmware: cq/salt
-        // paths do not apply; remote topics use the same AES id as other HME.
-        // Gate on the HME family too (mirrors the inverse-forwarding check) so a
-        // non-AstraMeter device with a placeholder-like MAC keeps the normal path.
-        if (
-          isAstraMeterFamily(device.type) &&
-          isAstraMeterSyntheticMac(device.mac)
-        ) {
-          if (!broker.topic_encryption_key) {
-            throw new Error(
-              `Device ${device.device_id}: broker "${brokerId}" has no topic_encryption_key; required to derive remote_id for AstraMeter synthetic MAC (calculateNewVersionTopicId).`,
-            );
-          }
-          device.remote_id = calculateNewVersionTopicId(
-            Buffer.from(broker.topic_encryption_key, "hex"),
-            device.mac,
-          );
-          logger.debug(
-            `AstraMeter synthetic MAC: remote_id from topic encryption for device ${device.device_id}`,
-          );
-        } else if (
-          device.salt &&
-          device.version &&
-          supportsVid(device.type, device.version)
-        ) {
-          logger.debug(
-            `Device ${device.device_id} supports CommonHelper.cq method, using salt-based calculation`,
-          );
-          const firstSalt = CommonHelper.extractFirstSalt(device.salt);
-          if (firstSalt) {
-            device.remote_id = CommonHelper.cq(
-              firstSalt,
-              device.mac,
-              device.type,
-            );
-            logger.debug(
-              `Calculated remote ID using CommonHelper.cq: ${device.remote_id} for device ${device.device_id}`,
-            );
-          } else {
-            logger.warn(
-              `Failed to extract salt for device ${device.device_id}, falling back to alternative method`,
-            );
-            device.remote_id = device.device_id;
-          }
-        } else if (broker.topic_encryption_key) {
-          logger.debug(
-            `Using topic encryption key for device ${device.device_id}`,
-          );
-          device.remote_id = calculateNewVersionTopicId(
-            Buffer.from(broker.topic_encryption_key, "hex"),
-            device.mac,
-          );
-          logger.debug(
-            `Calculated remote ID: ${device.remote_id} for device ${device.device_id}`,
-          );
-        } else {
-          logger.debug(
-            `No topic encryption key found for device ${device.device_id}, using device ID as remote ID`,
-          );
-          device.remote_id = device.device_id;
-        }
-      }
-      if (device.use_remote_topic_id == null && device.version != null) {
-        const autoRemote = usesRemoteTopicId(device.type, device.version);
-        if (autoRemote) {
-          device.use_remote_topic_id = true;
-          logger.debug(
-            `Enabled remote topic ID for device ${device.device_id}`,
-          );
-        }
-      }
-      logger.debug(`Adding device ${device.device_id} to broker ${brokerId}`);
-      (devicesByBroker[brokerId] ??= []).push(device);
+  const tryStart = async (): Promise<void> => {
+    clearTimeout(startupTimer);
+    if (starting || stopRelay || stopping) {
+      return;
     }
-
-    logger.info(`\nConfigured devices: ${devicesConfig.devices.length} total`);
-    logger.info("------------------");
-    devicesConfig.devices.forEach((device, index) => {
-      logger.info(`Device ${index + 1}:`);
-      logger.info(`  Name: ${device.name || "Not specified"}`);
-      logger.info(`  Device ID: ${device.device_id}`);
-      logger.info(`  Remote ID: ${device.remote_id}`);
-      logger.info(`  MAC: ${device.mac}`);
-      logger.info(`  Type: ${device.type}`);
-      logger.info(`  Version: ${device.version ?? "Unknown"}`);
-      logger.info(`  Broker: ${device.broker_id}`);
-      logger.info(
-        `  Inverse Forwarding: ${device.inverse_forwarding ?? config.inverse_forwarding ?? false}`,
+    starting = true;
+    try {
+      stopRelay = await startRelay(paths, cache, tokens, healthServer);
+      healthServer.setReady();
+      startupWatcher?.close();
+    } catch (error: unknown) {
+      healthServer.setDegraded(error);
+      logger.error(
+        error,
+        `Failed to start MQTT forwarder; retrying in ${Math.round(delay / 1000)}s`,
       );
-      logger.info(
-        `  Use Remote Topic ID: ${device.use_remote_topic_id ?? false}`,
+      startupWatcher ??= new ConfigWatcher(
+        [paths.configPath, paths.brokersPath],
+        async () => {
+          logger.info("Configuration change detected, retrying startup...");
+          delay = STARTUP_RETRY_INITIAL_MS;
+          await tryStart();
+        },
       );
-      logger.info("------------------");
-    });
-    logger.info("");
-
-    const forwarders: MQTTForwarder[] = [];
-    const healthServer = new HealthServer();
+      startupTimer = setTimeout(tryStart, delay);
+      delay = Math.min(delay * 2, STARTUP_RETRY_MAX_MS);
+    } finally {
+      starting = false;
+    }
+  };
 
-    for (const [id, devices] of Object.entries(devicesByBroker)) {
-      logger.debug(`Setting up forwarder for broker ${id}`);
-      const fconfig: ForwarderConfig = {
-        broker_url: config.broker_url,
-        devices,
-        inverse_forwarding: config.inverse_forwarding,
-        username: config.username,
-        password: config.password,
-        remote: brokers[id],
-        broker_id: id,
-      };
-      const fw = new MQTTForwarder(fconfig);
-      forwarders.push(fw);
-      healthServer.addBroker(id, fw.getRemoteBroker());
+  const shutdown = async (signal: NodeJS.Signals): Promise<void> => {
+    if (stopping) {
+      logger.warn(`Received ${signal} again, exiting immediately`);
+      process.exit(1);
     }
-    if (forwarders.length > 0) {
-      healthServer.addBroker("local", forwarders[0].getConfigBroker());
+    stopping = true;
+    const timeoutMs = shutdownTimeoutMs();
+    logger.info(`Received ${signal}, shutting down...`);
+    setTimeout(() => {
+      logger.warn(`Shutdown did not finish within ${timeoutMs}ms, exiting`);
+      process.exit(1);
+    }, timeoutMs).unref();
+    clearTimeout(startupTimer);
+    startupWatcher?.close();
+    try {
+      await stopRelay?.();
+    } catch (error: unknown) {
+      logger.error(error, "Failed to stop the relay cleanly");
     }
+    await healthServer.close();
+    logger.info("Shutdown complete");
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
 
-    process.on("SIGINT", () => {
-      logger.info("Shutting down...");
-      forwarders.forEach((f) => f.close());
-      healthServer.close();
-      process.exit(0);
-    });
-  } catch (error: unknown) {
-    logger.error(error, "Failed to start MQTT forwarder");
-    process.exit(1);
-  }
+  await tryStart();
 }
 
 start();
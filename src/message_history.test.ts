@@ -0,0 +1,140 @@
+import { test, describe } from "node:test";
+import assert from "node:assert";
+import { IPublishPacket } from "mqtt";
+import {
+  MESSAGE_CACHE_TIMEOUT_MS,
+  MessageHistory,
+  isEcho,
+  messageKey,
+  relayInstanceOf,
+  relayPublishOptions,
+} from "./message_history.js";
+
+describe("MessageHistory", () => {
+  let time = 0;
+  const create = (maxEntries: number) => {
+    time = 0;
+    return new MessageHistory(maxEntries, () => time);
+  };
+
+  test("drops the oldest entries beyond the cap", () => {
+    const history = create(2);
+    assert.deepStrictEqual(history.remember("a"), []);
+    time = 100;
+    history.remember("b");
+    time = 200;
+    // Remembering a key again makes it the newest entry
+    history.remember("a");
+    assert.deepStrictEqual(history.remember("c"), ["b"]);
+    assert.strictEqual(history.size, 2);
+    assert.strictEqual(history.age("a"), 0);
+    assert.strictEqual(history.age("b"), undefined);
+
+    history.setMaxEntries(1);
+    assert.deepStrictEqual(history.remember("d"), ["a", "c"]);
+    assert.strictEqual(history.size, 1);
+  });
+
+  test("cleanup drops expired telemetry and processed messages", () => {
+    const telemetry = create(100);
+    telemetry.remember("dev-a");
+    time = 30_000;
+    telemetry.remember("dev-b");
+    time = 60_000;
+    telemetry.expire(60_000);
+    assert.strictEqual(telemetry.age("dev-a"), undefined);
+    assert.strictEqual(telemetry.age("dev-b"), 30_000);
+
+    const processed = create(100);
+    processed.remember("old");
+    time = 60_000 + MESSAGE_CACHE_TIMEOUT_MS;
+    processed.remember("new");
+    time = 60_000 + MESSAGE_CACHE_TIMEOUT_MS * 2;
+    processed.expire(MESSAGE_CACHE_TIMEOUT_MS * 2);
+    assert.strictEqual(processed.size, 1);
+    assert.strictEqual(processed.age("new"), MESSAGE_CACHE_TIMEOUT_MS);
+  });
+});
+
+describe("messageKey", () => {
+  test("tells brokers, topics and payloads apart", () => {
+    const key = messageKey("local", "hame_energy/HMA-1/x", Buffer.from("a"));
+    assert.strictEqual(
+      key,
+      messageKey("local", "hame_energy/HMA-1/x", Buffer.from("a")),
+    );
+    assert.notStrictEqual(
+      key,
+      messageKey("remote", "hame_energy/HMA-1/x", Buffer.from("a")),
+    );
+    assert.notStrictEqual(
+      key,
+      messageKey("local", "hame_energy/HMA-1/y", Buffer.from("a")),
+    );
+    assert.notStrictEqual(
+      key,
+      messageKey("local", "hame_energy/HMA-1/x", Buffer.from("b")),
+    );
+  });
+});
+
+describe("isEcho", () => {
+  let time = 0;
+  const forwarded = (key: string) => {
+    time = 0;
+    const history = new MessageHistory(100, () => time);
+    history.remember(key);
+    return history;
+  };
+  const key = messageKey("remote", "topic", Buffer.from("cd=1"));
+
+  test("skips a forwarded message that comes back", () => {
+    const history = forwarded(key);
+    time = MESSAGE_CACHE_TIMEOUT_MS;
+    assert.strictEqual(isEcho(history, key), true);
+    // Consumed: the same message arriving again is forwarded
+    assert.strictEqual(isEcho(history, key), false);
+    assert.strictEqual(history.size, 0);
+  });
+
+  test("forwards the message once the timeout has passed", () => {
+    const history = forwarded(key);
+    time = MESSAGE_CACHE_TIMEOUT_MS + 1;
+    assert.strictEqual(isEcho(history, key), false);
+    assert.strictEqual(history.size, 0);
+  });
+
+  test("forwards messages that were not forwarded", () => {
+    const history = forwarded(key);
+    assert.strictEqual(
+      isEcho(history, messageKey("local", "topic", Buffer.from("cd=1"))),
+      false,
+    );
+    assert.strictEqual(history.size, 1);
+  });
+});
+
+describe("relayPublishOptions", () => {
+  test("tags messages with the instance only on MQTT 5", () => {
+    assert.deepStrictEqual(relayPublishOptions(5, "abcd1234"), {
+      properties: { userProperties: { relayInstanceId: "abcd1234" } },
+    });
+    assert.deepStrictEqual(relayPublishOptions(4, "abcd1234"), {});
+    assert.deepStrictEqual(relayPublishOptions(3, "abcd1234"), {});
+    assert.deepStrictEqual(relayPublishOptions(undefined, "abcd1234"), {});
+  });
+
+  test("the tag is read back from received packets", () => {
+    const packet = (properties?: IPublishPacket["properties"]) =>
+      ({ topic: "t", payload: "", properties }) as IPublishPacket;
+    assert.strictEqual(
+      relayInstanceOf(packet(relayPublishOptions(5, "abcd1234").properties)),
+      "abcd1234",
+    );
+    assert.strictEqual(relayInstanceOf(packet()), undefined);
+    assert.strictEqual(
+      relayInstanceOf(packet({ userProperties: { other: "x" } })),
+      undefined,
+    );
+  });
+});
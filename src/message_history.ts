@@ -0,0 +1,109 @@
+import { createHash } from "crypto";
+import { IClientPublishOptions, IPublishPacket } from "mqtt";
+import { BrokerSide } from "./forwarding_topics.js";
+
+/** How long a forwarded message that comes back is recognized as an echo. */
+export const MESSAGE_CACHE_TIMEOUT_MS = 1000;
+
+/**
+ * When keys were last seen, oldest first. Entries normally expire within
+ * seconds; the cap only protects against bursts between cleanups.
+ */
+export class MessageHistory {
+  private entries: Map<string, number> = new Map();
+
+  constructor(
+    private maxEntries: number,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  public setMaxEntries(maxEntries: number): void {
+    this.maxEntries = maxEntries;
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Records `key` as the newest entry. Returns the oldest keys that were
+   * dropped to stay within the cap.
+   */
+  public remember(key: string): string[] {
+    this.entries.delete(key); // Re-insert so the map stays ordered by time
+    this.entries.set(key, this.now());
+    const dropped: string[] = [];
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(oldest);
+      dropped.push(oldest);
+    }
+    return dropped;
+  }
+
+  /** Milliseconds since `key` was recorded, or undefined if it was not. */
+  public age(key: string): number | undefined {
+    const recordedAt = this.entries.get(key);
+    return recordedAt === undefined ? undefined : this.now() - recordedAt;
+  }
+
+  public delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /** Drops entries recorded `maxAgeMs` or longer ago. */
+  public expire(maxAgeMs: number): void {
+    const now = this.now();
+    for (const [key, recordedAt] of this.entries.entries()) {
+      if (now - recordedAt >= maxAgeMs) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Key of a message as seen on one side of a forwarder. Hashing the payload
+ * keeps the history small for large messages.
+ */
+export function messageKey(
+  side: BrokerSide,
+  topic: string,
+  payload: Buffer,
+): string {
+  const payloadHash = createHash("md5").update(payload).digest("hex");
+  return `${side}:${topic}:${payloadHash}`;
+}
+
+/**
+ * Whether the message with `key` is the echo of one forwarded within
+ * MESSAGE_CACHE_TIMEOUT_MS. The entry is consumed, so the same message
+ * arriving again later is forwarded.
+ */
+export function isEcho(forwarded: MessageHistory, key: string): boolean {
+  const age = forwarded.age(key);
+  forwarded.delete(key);
+  return age !== undefined && age <= MESSAGE_CACHE_TIMEOUT_MS;
+}
+
+/**
+ * Publish options that tag a forwarded message with the relay instance.
+ * User properties only exist in MQTT 5; on older protocols the echo is
+ * recognized by its key alone.
+ */
+export function relayPublishOptions(
+  protocolVersion: number | undefined,
+  instanceId: string,
+): IClientPublishOptions {
+  return protocolVersion === 5
+    ? { properties: { userProperties: { relayInstanceId: instanceId } } }
+    : {};
+}
+
+/** The relay instance that forwarded a packet, if it carries the tag. */
+export function relayInstanceOf(packet: IPublishPacket): string | undefined {
+  const instanceId = packet.properties?.userProperties?.relayInstanceId;
+  return typeof instanceId === "string" ? instanceId : undefined;
+}
@@ -2,29 +2,76 @@ import * as mqtt from "mqtt";
 import { MqttClient } from "mqtt";
 import { createHash } from "crypto";
 import { logger } from "./logger.js";
-import { Device, ForwarderConfig } from "./types.js";
+import {
+  BrokerSide,
+  TopicStructure,
+  ctrlTopic,
+  subscriptionTopicFor,
+  topicStructureFor,
+} from "./forwarding_topics.js";
+import { MessageOrigin, screenMessage } from "./command_rules.js";
+import { responseTimeoutMs } from "./device_matrix.js";
+import { MessageHistoryStats } from "./health.js";
+import {
+  MESSAGE_CACHE_TIMEOUT_MS,
+  MessageHistory,
+  isEcho,
+  messageKey,
+  relayInstanceOf,
+  relayPublishOptions,
+} from "./message_history.js";
+import { DevicePoller } from "./poller.js";
+import { DeviceRateLimitStats, RateLimiter } from "./rate_limiter.js";
+import { parseCommandCode, RequestTracker } from "./request_tracker.js";
+import { Device, ForwarderConfig, MqttProtocolVersion } from "./types.js";
+
+/** Default cap for each of a forwarder's message history maps. */
+export const DEFAULT_MESSAGE_HISTORY_MAX_ENTRIES = 1000;
+
+/** Default minimum interval between unsolicited messages sent to the cloud per device. */
+export const DEFAULT_TELEMETRY_INTERVAL_SECONDS = 60;
 
 export class MQTTForwarder {
   private configBroker!: mqtt.MqttClient;
   private remoteBroker!: mqtt.MqttClient;
   private readonly logger: typeof logger;
-  private readonly MESSAGE_HISTORY_TIMEOUT = 1000; // 1 second timeout
-  private readonly MESSAGE_CACHE_TIMEOUT = 1000; // 1 second timeout for message loop prevention
+  private readonly MESSAGE_CLEANUP_INTERVAL = 10 * 1000; // How often expired history entries are dropped
   private readonly INSTANCE_ID = createHash("md5")
     .update(`${Date.now()}-${Math.random()}`)
     .digest("hex")
     .substring(0, 8); // Unique ID for this instance
-  private appMessageHistory: Map<string, number> = new Map(); // Store when App messages were forwarded
-  private processedMessages: Map<string, number> = new Map(); // Store message hashes to prevent loops
-
-  constructor(private readonly config: ForwarderConfig) {
+  private requests: RequestTracker; // App requests awaiting a device reply
+  private poller: DevicePoller; // Scheduled status requests
+  private rateLimiter: RateLimiter; // Per-device limits for forwarded messages
+  private processedMessages: MessageHistory; // Hashes of forwarded messages (broker, topic, payload) to recognize echoes
+  private telemetryHistory: MessageHistory; // When unsolicited device messages were last sent to the cloud
+  private deniedCommands: Map<string, number> = new Map(); // Cloud commands blocked by command_rules, by device id
+  private pendingPublishes: Set<Promise<void>> = new Set(); // Forwarded messages not yet written
+  private delayedPublishes: Set<NodeJS.Timeout> = new Set(); // Messages held back by a rate limit
+  private closing = false;
+  private cleanupTimer?: NodeJS.Timeout;
+
+  constructor(private config: ForwarderConfig) {
     this.logger = logger.child(
       {},
       {
         msgPrefix: `[${config.broker_id}] `,
       },
     );
+    this.requests = new RequestTracker(this.maxHistoryEntries());
+    this.processedMessages = new MessageHistory(this.maxHistoryEntries());
+    this.telemetryHistory = new MessageHistory(this.maxHistoryEntries());
+    this.rateLimiter = new RateLimiter(config.rate_limit);
     this.initializeBrokers();
+    this.cleanupTimer = setInterval(
+      () => this.cleanupMessageHistory(),
+      this.MESSAGE_CLEANUP_INTERVAL,
+    );
+    this.poller = new DevicePoller(
+      (device) => this.deviceKey(device),
+      (device, payload) => this.pollDevice(device, payload),
+    );
+    this.updatePoller();
   }
 
   public getRemoteBroker(): MqttClient {
@@ -35,6 +82,22 @@ export class MQTTForwarder {
     return this.configBroker;
   }
 
+  public getMessageHistoryStats(): MessageHistoryStats {
+    return {
+      pending_requests: this.requests.size,
+      processed_messages: this.processedMessages.size,
+      telemetry: this.telemetryHistory.size,
+    };
+  }
+
+  public getDeniedCommands(): Record<string, number> {
+    return Object.fromEntries(this.deniedCommands);
+  }
+
+  public getRateLimitStats(): Record<string, DeviceRateLimitStats> {
+    return this.rateLimiter.getStats();
+  }
+
   private loadCertificates(): { ca: Buffer; cert: Buffer; key: Buffer } {
     try {
       return {
@@ -48,10 +111,23 @@ export class MQTTForwarder {
     }
   }
 
+  /**
+   * Connect options for an MQTT protocol level (default 3.1.1). MQTT 3.1
+   * brokers only accept the protocol name "MQIsdp"; later levels use "MQTT".
+   */
+  private protocolOptions(
+    version: MqttProtocolVersion = 4,
+  ): Pick<mqtt.IClientOptions, "protocolVersion" | "protocolId"> {
+    return version === 3
+      ? { protocolVersion: 3, protocolId: "MQIsdp" }
+      : { protocolVersion: version, protocolId: "MQTT" };
+  }
+
   private initializeBrokers(): void {
     const configOptions = {
       keepalive: 30,
       clientId: this.generateClientId("config_"),
+      ...this.protocolOptions(this.config.broker_protocol_version),
     };
     this.configBroker = mqtt.connect(this.config.broker_url, configOptions);
 
@@ -60,11 +136,18 @@ export class MQTTForwarder {
       ...certs,
       protocol: "mqtts" as const,
       keepalive: 30,
+      ...this.protocolOptions(this.config.remote.protocol_version),
       clientId: this.generateClientId(
         this.config.remote.client_id_prefix || "hm_",
       ),
     };
-    this.remoteBroker = mqtt.connect(this.config.remote.url, remoteOptions);
+    try {
+      this.remoteBroker = mqtt.connect(this.config.remote.url, remoteOptions);
+    } catch (error: unknown) {
+      // Invalid TLS material throws synchronously; don't leak the local client
+      this.configBroker.end(true);
+      throw error;
+    }
 
     this.setupBrokerEventHandlers();
   }
@@ -124,74 +207,41 @@ export class MQTTForwarder {
     this.setupSubscriptions(this.remoteBroker);
   }
 
+  private sideOf(broker: MqttClient): BrokerSide {
+    return broker === this.configBroker ? "local" : "remote";
+  }
+
   /**
-   * Determines the appropriate topic prefix and identifier for a device on a specific broker
-   *
-   * This centralized method handles all the logic for determining which topic structure to use:
-   *
-   * For LOCAL broker (configBroker):
-   *   - If use_remote_topic_id=true: Uses remote structure (topic_prefix + remote_id)
-   *   - If use_remote_topic_id=false: Uses local structure (local_topic_prefix + mac)
-   *
-   * For REMOTE broker (remoteBroker):
-   *   - Always uses remote structure (topic_prefix + remote_id)
-   *
-   * @param device The device configuration
-   * @param broker The MQTT broker (configBroker for local, remoteBroker for remote)
-   * @returns Object containing prefix and identifier to use for this device on this broker
+   * Determines the topic prefix and identifier for a device on one of this
+   * forwarder's brokers. See {@link topicStructureFor}.
    */
   private getTopicStructureForDevice(
     device: Device,
     broker: MqttClient,
-  ): { prefix: string; identifier: string } {
-    if (broker === this.configBroker) {
-      // Local broker
-      if (device.use_remote_topic_id) {
-        // Use remote topic structure on local broker
-        return {
-          prefix: this.config.remote.topic_prefix || "hame_energy/",
-          identifier: device.remote_id!,
-        };
-      } else {
-        // Use local topic structure
-        return {
-          prefix:
-            this.config.remote.local_topic_prefix ||
-            this.config.remote.topic_prefix ||
-            "hame_energy/",
-          identifier: device.mac,
-        };
-      }
-    } else {
-      // Remote broker - always use remote structure
-      return {
-        prefix: this.config.remote.topic_prefix || "hame_energy/",
-        identifier: device.remote_id!,
-      };
-    }
+  ): TopicStructure {
+    return topicStructureFor(device, this.config.remote, this.sideOf(broker));
   }
 
-  private setupSubscriptions(broker: MqttClient): void {
-    const brokerName = broker === this.configBroker ? "local" : "remote";
-
-    const topics = this.config.devices.map((device) => {
-      // Get the appropriate topic structure for this device on this broker
-      const { prefix, identifier } = this.getTopicStructureForDevice(
+  /**
+   * Topics this forwarder listens to on the given broker for the currently
+   * configured devices.
+   */
+  private getSubscriptionTopics(broker: MqttClient): string[] {
+    return this.config.devices.map((device) =>
+      subscriptionTopicFor(
         device,
-        broker,
-      );
-
-      let inverseForwarding =
-        device.inverse_forwarding ?? this.config.inverse_forwarding;
-      if (broker === this.configBroker) {
-        inverseForwarding = !inverseForwarding;
-      }
-
-      return inverseForwarding
-        ? `${prefix}${device.type}/device/${identifier}/ctrl`
-        : `${prefix}${device.type}/App/${identifier}/ctrl`;
-    });
+        this.config.remote,
+        this.sideOf(broker),
+        this.config.inverse_forwarding,
+      ),
+    );
+  }
 
+  private subscribeTopics(broker: MqttClient, topics: string[]): void {
+    const brokerName = broker === this.configBroker ? "local" : "remote";
+    if (topics.length === 0) {
+      return;
+    }
     this.logger.debug(
       `Subscribing to ${brokerName} broker topics:\n${topics.join("\n")}`,
     );
@@ -205,10 +255,38 @@ export class MQTTForwarder {
       }
       this.logger.info(`Subscribed to ${brokerName} broker topics`);
     });
+  }
+
+  private unsubscribeTopics(broker: MqttClient, topics: string[]): void {
+    const brokerName = broker === this.configBroker ? "local" : "remote";
+    if (topics.length === 0) {
+      return;
+    }
+    this.logger.debug(
+      `Unsubscribing from ${brokerName} broker topics:\n${topics.join("\n")}`,
+    );
+    broker.unsubscribe(topics, (err?: Error) => {
+      if (err) {
+        this.logger.error(
+          err,
+          `Error unsubscribing from ${brokerName} broker topics`,
+        );
+        return;
+      }
+      this.logger.info(`Unsubscribed from ${brokerName} broker topics`);
+    });
+  }
+
+  private setupSubscriptions(broker: MqttClient): void {
+    this.subscribeTopics(broker, this.getSubscriptionTopics(broker));
 
     broker.on(
       "message",
       (topic: string, message: Buffer, packet: mqtt.IPublishPacket) => {
+        if (this.closing) {
+          this.logger.debug(`Shutting down, dropping message: ${topic}`);
+          return;
+        }
         this.forwardMessage(
           topic,
           message,
@@ -220,31 +298,92 @@ export class MQTTForwarder {
   }
 
   /**
-   * Checks if a message has been processed by this or another relay instance
+   * Whether `config` can be applied to this forwarder without reconnecting,
+   * i.e. only the device list or forwarding flags differ.
+   */
+  public canUpdate(config: ForwarderConfig): boolean {
+    return (
+      config.broker_id === this.config.broker_id &&
+      config.broker_url === this.config.broker_url &&
+      config.broker_protocol_version === this.config.broker_protocol_version &&
+      JSON.stringify(config.remote) === JSON.stringify(this.config.remote)
+    );
+  }
+
+  /**
+   * Replaces the device list in place. Only the topics that actually changed
+   * are unsubscribed/subscribed, so unchanged devices keep forwarding without
+   * interruption.
+   */
+  public updateConfig(config: ForwarderConfig): void {
+    if (!this.canUpdate(config)) {
+      throw new Error(
+        `Forwarder ${this.config.broker_id} cannot be updated in place; connection settings changed`,
+      );
+    }
+    const brokers = [this.configBroker, this.remoteBroker];
+    const previousTopics = brokers.map((b) => this.getSubscriptionTopics(b));
+    this.config = config;
+    this.requests.setMaxEntries(this.maxHistoryEntries());
+    this.processedMessages.setMaxEntries(this.maxHistoryEntries());
+    this.telemetryHistory.setMaxEntries(this.maxHistoryEntries());
+    this.rateLimiter.setLimits(config.rate_limit);
+    this.updatePoller();
+    brokers.forEach((broker, index) => {
+      const before = new Set(previousTopics[index]);
+      const after = new Set(this.getSubscriptionTopics(broker));
+      this.unsubscribeTopics(
+        broker,
+        [...before].filter((topic) => !after.has(topic)),
+      );
+      this.subscribeTopics(
+        broker,
+        [...after].filter((topic) => !before.has(topic)),
+      );
+    });
+    this.logger.info(
+      `Updated forwarder configuration (${config.devices.length} devices)`,
+    );
+  }
+
+  /**
+   * Checks if a message has been processed by this or another relay instance.
+   * Messages this forwarder published itself are recognized by broker, topic
+   * and payload, which works with any MQTT protocol version. On MQTT 5 the
+   * `relayInstanceId` user property also catches messages from other relays.
    * @param packet The MQTT packet containing message and properties
+   * @param source The broker the packet was received from
    * @returns true if the message has been processed and should be skipped, false otherwise
    */
-  private isMessageProcessed(packet: mqtt.IPublishPacket): boolean {
+  private isMessageProcessed(
+    packet: mqtt.IPublishPacket,
+    source: MqttClient,
+  ): boolean {
     try {
-      // Check if this message has a relay header
-      if (packet.properties && packet.properties.userProperties) {
-        const userProps = packet.properties.userProperties;
-
-        // Check if this message has our relay instance ID or another relay's
-        if (typeof userProps.relayInstanceId === "string") {
-          // Message has already been processed by a relay
-          if (userProps.relayInstanceId === this.INSTANCE_ID) {
-            // This is our own message coming back - definitely skip it
-            this.logger.debug("Skipping message from our own relay instance");
-            return true;
-          } else {
-            // Message from another relay instance - also skip it to prevent loops
-            this.logger.debug(
-              `Skipping message from relay instance: ${userProps.relayInstanceId.substring(0, 8)}`,
-            );
-            return true;
-          }
-        }
+      const key = messageKey(
+        this.sideOf(source),
+        packet.topic,
+        Buffer.from(packet.payload),
+      );
+      if (isEcho(this.processedMessages, key)) {
+        this.logger.debug(
+          `Skipping message we forwarded ourselves: ${packet.topic}`,
+        );
+        return true;
+      }
+
+      // Message has already been processed by a relay
+      const relayInstanceId = relayInstanceOf(packet);
+      if (relayInstanceId === this.INSTANCE_ID) {
+        // This is our own message coming back - definitely skip it
+        this.logger.debug("Skipping message from our own relay instance");
+        return true;
+      } else if (relayInstanceId !== undefined) {
+        // Message from another relay instance - also skip it to prevent loops
+        this.logger.debug(
+          `Skipping message from relay instance: ${relayInstanceId.substring(0, 8)}`,
+        );
+        return true;
       }
       return false;
     } catch (error) {
@@ -260,7 +399,11 @@ export class MQTTForwarder {
     packet?: mqtt.IPublishPacket,
   ): void {
     // Check if this is a looped message that should be skipped
-    if (packet && this.isMessageProcessed(packet)) {
+    const sourceClient =
+      targetClient === this.configBroker
+        ? this.remoteBroker
+        : this.configBroker;
+    if (packet && this.isMessageProcessed(packet, sourceClient)) {
       return;
     }
 
@@ -271,11 +414,6 @@ export class MQTTForwarder {
 
     // Try to match against all possible topic patterns for all devices
     for (const device of this.config.devices) {
-      const sourceClient =
-        targetClient === this.configBroker
-          ? this.remoteBroker
-          : this.configBroker;
-
       // Get the expected topic structure for this device on the source broker
       const { prefix: expectedPrefix, identifier: expectedIdentifier } =
         this.getTopicStructureForDevice(device, sourceClient);
@@ -308,8 +446,7 @@ export class MQTTForwarder {
       matchedDevice.inverse_forwarding ?? this.config.inverse_forwarding;
     this.logger.debug(`Inverse forwarding: ${inverseForwarding}`);
 
-    // Create a unique key for this device
-    const deviceKey = `${matchedDevice.type}:${matchedDevice.device_id}:${matchedDevice.mac}`;
+    const deviceKey = this.deviceKey(matchedDevice);
 
     if (targetClient === this.configBroker) {
       if (isDevice && !inverseForwarding) {
@@ -337,24 +474,41 @@ export class MQTTForwarder {
       }
     }
 
-    if (isDevice) {
-      // Check if we previously forwarded an App message for this device
-      const lastAppMessageTime = this.appMessageHistory.get(deviceKey);
-      const currentTime = Date.now();
+    if (
+      !this.screen(matchedDevice, message, {
+        isDevice,
+        fromCloud: targetClient === this.configBroker,
+      })
+    ) {
+      return;
+    }
 
-      if (
-        !lastAppMessageTime ||
-        currentTime - lastAppMessageTime > this.MESSAGE_HISTORY_TIMEOUT
+    const command = parseCommandCode(message);
+
+    if (isDevice) {
+      // Only forward replies to an App request we forwarded
+      const request = this.requests.matchResponse(deviceKey, command);
+      if (request) {
+        this.logger.debug(
+          `Device reply for ${deviceKey} answers request ${request.command ?? "(no command code)"} after ${Date.now() - request.sentAt}ms`,
+        );
+      } else if (
+        targetClient === this.remoteBroker &&
+        matchedDevice.forward_telemetry
       ) {
+        if (!this.allowTelemetry(deviceKey)) {
+          this.logger.debug(
+            `Skipping telemetry forwarding to remote for ${deviceKey}: rate limited`,
+          );
+          return;
+        }
+        this.logger.debug(`Forwarding unsolicited telemetry for ${deviceKey}`);
+      } else {
         this.logger.debug(
-          `Skipping device message forwarding to remote for ${deviceKey}: no recent App message was forwarded`,
+          `Skipping device message forwarding to remote for ${deviceKey}: no pending App request`,
         );
         return;
       }
-      this.appMessageHistory.delete(deviceKey);
-    } else {
-      // This is an App message, record it in history
-      this.appMessageHistory.set(deviceKey, Date.now());
     }
 
     // Get the target topic structure for this device on the target broker
@@ -372,41 +526,253 @@ export class MQTTForwarder {
     this.logger.debug(`From: ${from}`);
     this.logger.debug(`To: ${to}`);
 
-    // Add relay instance header to the message to prevent loops
-    const publishOptions = {
-      properties: {
-        userProperties: {
-          relayInstanceId: this.INSTANCE_ID,
-        },
-      },
+    const delayMs = this.rateLimiter.reserve(
+      matchedDevice.device_id,
+      targetClient === this.configBroker
+        ? "remote_to_local"
+        : "local_to_remote",
+    );
+    if (delayMs === undefined) {
+      this.logger.warn(
+        `Dropping message from ${from} to ${to} for ${matchedDevice.device_id}: rate limit exceeded (${topic})`,
+      );
+      return;
+    }
+
+    // App commands are tracked once they are actually sent, so one the rate
+    // limit dropped neither awaits a reply nor pauses polling.
+    const send = () => {
+      if (!isDevice) {
+        this.requests.recordRequest(
+          deviceKey,
+          command,
+          responseTimeoutMs(matchedDevice.type),
+        );
+        this.poller.noteAppTraffic(deviceKey);
+      }
+      this.publish(targetClient, topic, newTopic, message);
     };
+    if (delayMs > 0) {
+      this.logger.info(
+        `Delaying message from ${from} to ${to} for ${matchedDevice.device_id} by ${delayMs}ms: rate limit (${topic})`,
+      );
+      const timer = setTimeout(() => {
+        this.delayedPublishes.delete(timer);
+        send();
+      }, delayMs);
+      this.delayedPublishes.add(timer);
+      return;
+    }
+    send();
+  }
 
-    targetClient.publish(newTopic, message, publishOptions);
+  private publish(
+    targetClient: MqttClient,
+    topic: string,
+    newTopic: string,
+    message: Buffer,
+  ): void {
+    const from = targetClient === this.configBroker ? "remote" : "local";
+    const to = targetClient === this.configBroker ? "local" : "remote";
+
+    // Add relay instance header to the message to prevent loops
+    const publishOptions = relayPublishOptions(
+      targetClient.options.protocolVersion,
+      this.INSTANCE_ID,
+    );
+    this.remember(
+      this.processedMessages,
+      messageKey(this.sideOf(targetClient), newTopic, message),
+    );
+
+    const published = new Promise<void>((resolve) => {
+      targetClient.publish(newTopic, message, publishOptions, (error) => {
+        if (error) {
+          this.logger.error(error, `Failed to forward message to ${to}`);
+        }
+        resolve();
+      });
+    });
+    // Messages queued while offline only complete after a reconnect, so a
+    // shutdown does not wait for them.
+    if (targetClient.connected) {
+      this.pendingPublishes.add(published);
+      published.then(() => this.pendingPublishes.delete(published));
+    }
     this.logger.info(
       `Forwarded message from ${from} to ${to}: ${topic} -> ${newTopic}`,
     );
   }
 
   public close(): void {
+    clearInterval(this.cleanupTimer);
+    this.poller.stop();
+    this.dropDelayedPublishes();
     this.configBroker.end();
     this.remoteBroker.end();
   }
 
+  /**
+   * Stops forwarding, waits until messages already forwarded are written and
+   * then disconnects from both brokers, so the remote broker releases the
+   * client id instead of waiting for the keepalive to expire.
+   */
+  public async shutdown(): Promise<void> {
+    this.closing = true;
+    clearInterval(this.cleanupTimer);
+    this.poller.stop();
+    this.dropDelayedPublishes();
+    if (this.pendingPublishes.size > 0) {
+      this.logger.debug(
+        `Waiting for ${this.pendingPublishes.size} pending publishes`,
+      );
+      await Promise.all(this.pendingPublishes);
+    }
+    await Promise.all([
+      this.configBroker.endAsync(),
+      this.remoteBroker.endAsync(),
+    ]);
+    this.logger.info("Disconnected from brokers");
+  }
+
+  /**
+   * Applies read-only mode and `command_rules` and logs what they drop.
+   * Commands denied by a rule are counted per device for the health endpoint.
+   */
+  private screen(
+    device: Device,
+    message: Buffer,
+    origin: MessageOrigin,
+  ): boolean {
+    const result = screenMessage(device, message, origin, this.config);
+    for (const index of result.logged) {
+      this.logger.info(
+        `Cloud command for ${device.device_id} matched command_rules[${index}]: ${message}`,
+      );
+    }
+    if (result.forward) {
+      return true;
+    }
+    if (result.reason === "read_only") {
+      this.logger.warn(
+        `Dropping App command ${result.command === undefined ? "without command code" : `cd=${result.command}`} for read-only device ${device.device_id}: ${message}`,
+      );
+    } else {
+      this.deniedCommands.set(
+        device.device_id,
+        (this.deniedCommands.get(device.device_id) ?? 0) + 1,
+      );
+      this.logger.warn(
+        `Blocked cloud command for ${device.device_id} by command_rules[${result.rule}]: ${message}`,
+      );
+    }
+    return false;
+  }
+
+  /** Discards messages still held back by a rate limit. */
+  private dropDelayedPublishes(): void {
+    if (this.delayedPublishes.size > 0) {
+      this.logger.warn(
+        `Dropping ${this.delayedPublishes.size} messages delayed by rate limits`,
+      );
+    }
+    this.delayedPublishes.forEach((timer) => clearTimeout(timer));
+    this.delayedPublishes.clear();
+  }
+
+  /** A unique key for a device across the request, telemetry and poll state. */
+  private deviceKey(device: Device): string {
+    return `${device.type}:${device.device_id}:${device.mac}`;
+  }
+
+  private updatePoller(): void {
+    this.poller.update(this.config.devices, {
+      interval_seconds: this.config.poll_interval_seconds,
+      payload: this.config.poll_payload,
+    });
+  }
+
+  /**
+   * Publishes a status request as if it came from the App, on the broker the
+   * device is connected to. With inverse forwarding the device is on the
+   * cloud, so the request is tracked and the reply forwarded to the local
+   * broker; otherwise the reply already arrives there.
+   */
+  private pollDevice(device: Device, payload: string): void {
+    const inverse = device.inverse_forwarding ?? this.config.inverse_forwarding;
+    const broker = inverse ? this.remoteBroker : this.configBroker;
+    if (!broker.connected) {
+      this.logger.debug(
+        `Not polling ${device.device_id}: ${this.sideOf(broker)} broker offline`,
+      );
+      return;
+    }
+    const topic = ctrlTopic(
+      this.getTopicStructureForDevice(device, broker),
+      device.type,
+      "App",
+    );
+    if (inverse) {
+      this.requests.recordRequest(
+        this.deviceKey(device),
+        parseCommandCode(payload),
+        responseTimeoutMs(device.type),
+      );
+    }
+    broker.publish(topic, payload, (error) => {
+      if (error) {
+        this.logger.error(error, `Failed to poll ${device.device_id}`);
+      }
+    });
+    this.logger.debug(`Polled ${device.device_id}: ${topic}`);
+  }
+
+  private telemetryIntervalMs(): number {
+    return (
+      (this.config.telemetry_interval_seconds ??
+        DEFAULT_TELEMETRY_INTERVAL_SECONDS) * 1000
+    );
+  }
+
+  /**
+   * Whether an unsolicited device message may go to the cloud now; at most one
+   * per device and telemetry interval. Records the send if so.
+   */
+  private allowTelemetry(deviceKey: string): boolean {
+    const age = this.telemetryHistory.age(deviceKey);
+    if (age !== undefined && age < this.telemetryIntervalMs()) {
+      return false;
+    }
+    this.remember(this.telemetryHistory, deviceKey);
+    return true;
+  }
+
+  private maxHistoryEntries(): number {
+    return (
+      this.config.message_history_max_entries ??
+      DEFAULT_MESSAGE_HISTORY_MAX_ENTRIES
+    );
+  }
+
+  private remember(history: MessageHistory, key: string): void {
+    for (const dropped of history.remember(key)) {
+      this.logger.debug(`Message history full, dropped ${dropped}`);
+    }
+  }
+
   // Clean up old message history entries periodically
   private cleanupMessageHistory(): void {
     const now = Date.now();
-    // Clean up app message history
-    for (const [key, timestamp] of this.appMessageHistory.entries()) {
-      if (now - timestamp > this.MESSAGE_HISTORY_TIMEOUT * 2) {
-        this.appMessageHistory.delete(key);
-      }
-    }
+    // Drop App requests whose reply never came
+    this.requests.cleanup(now);
+
+    // Refilled token buckets no longer limit anything
+    this.rateLimiter.cleanup();
+
+    // Entries older than the interval no longer limit anything
+    this.telemetryHistory.expire(this.telemetryIntervalMs());
 
     // Clean up processed messages cache
-    for (const [key, timestamp] of this.processedMessages.entries()) {
-      if (now - timestamp > this.MESSAGE_CACHE_TIMEOUT * 2) {
-        this.processedMessages.delete(key);
-      }
-    }
+    this.processedMessages.expire(MESSAGE_CACHE_TIMEOUT_MS * 2);
   }
 }
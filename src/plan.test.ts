@@ -0,0 +1,168 @@
+import { test, describe } from "node:test";
+import assert from "node:assert";
+import { buildRelayPlan } from "./plan.js";
+import { BrokerDefinition, Device, MainConfig } from "./types.js";
+
+const broker = (extra: Partial<BrokerDefinition> = {}): BrokerDefinition => ({
+  url: "mqtts://example.invalid:8883",
+  ca: "ca",
+  cert: "cert",
+  key: "key",
+  topic_prefix: "hame_energy/",
+  ...extra,
+});
+
+const brokers: Record<string, BrokerDefinition> = {
+  "hame-2024": broker(),
+  "hame-2025": broker({
+    topic_prefix: "marstek_energy/",
+    topic_encryption_key: "00112233445566778899aabbccddeeff",
+  }),
+};
+
+const config: MainConfig = {
+  broker_url: "mqtt://localhost:1883",
+  username: "user@example.com",
+  password: "secret",
+};
+
+const devices: Device[] = [
+  {
+    device_id: "0123456789abcdef01234567",
+    mac: "AA:BB:CC:DD:EE:01",
+    type: "HMA-1",
+    version: 220,
+  },
+  {
+    device_id: "0123456789abcdef01234568",
+    mac: "aabbccddee02",
+    type: "HMA-1",
+    version: 226,
+  },
+];
+
+describe("buildRelayPlan", () => {
+  test("groups devices into one forwarder per broker", () => {
+    const plan = buildRelayPlan(config, brokers, devices);
+    assert.deepStrictEqual(
+      plan.forwarders.map((f) => [f.broker_id, f.devices.length]),
+      [
+        ["hame-2024", 1],
+        ["hame-2025", 1],
+      ],
+    );
+    assert.strictEqual(plan.forwarders[0].remote, brokers["hame-2024"]);
+  });
+
+  test("does not mutate the source devices", () => {
+    const source = devices.map((d) => ({ ...d }));
+    const plan = buildRelayPlan(config, brokers, source);
+    assert.deepStrictEqual(source, devices);
+    assert.strictEqual(plan.devices[0].mac, "aabbccddee01");
+    assert.strictEqual(source[0].remote_id, undefined);
+  });
+
+  test("planning the same input twice yields the same result", () => {
+    const first = buildRelayPlan(config, brokers, devices);
+    const second = buildRelayPlan(config, brokers, devices);
+    assert.deepStrictEqual(first, second);
+  });
+
+  test("throws for a device routed to an unknown broker", () => {
+    assert.throws(
+      () =>
+        buildRelayPlan(config, brokers, [
+          { ...devices[0], broker_id: "missing" },
+        ]),
+      /Broker 'missing' not defined/,
+    );
+  });
+
+  test("config.devices overrides and extends the API devices", () => {
+    const plan = buildRelayPlan(
+      {
+        ...config,
+        devices: [
+          { device_id: devices[0].device_id, broker_id: "hame-2025" } as Device,
+          {
+            device_id: "0123456789abcdef01234569",
+            mac: "aabbccddee03",
+            type: "HMJ-1",
+            remote_id: "manual-remote-id",
+          },
+        ],
+      },
+      brokers,
+      devices,
+    );
+    assert.deepStrictEqual(
+      plan.devices.map((d) => [d.device_id, d.broker_id, d.remote_id]),
+      [
+        [devices[0].device_id, "hame-2025", plan.devices[0].remote_id],
+        [devices[1].device_id, "hame-2025", plan.devices[1].remote_id],
+        ["0123456789abcdef01234569", "hame-2024", "manual-remote-id"],
+      ],
+    );
+    assert.strictEqual(plan.forwarders.length, 2);
+  });
+
+  test("manual mode plans config.devices with hand-supplied salt and version", () => {
+    const manual: MainConfig = {
+      broker_url: config.broker_url,
+      devices: [
+        {
+          device_id: "0123456789abcdef01234567",
+          mac: "aabbccddee01",
+          type: "HMA-1",
+          version: 230,
+          salt: "abc123,def456",
+        },
+      ],
+    };
+    const plan = buildRelayPlan(manual, brokers, []);
+    assert.strictEqual(plan.devices.length, 1);
+    assert.strictEqual(plan.devices[0].broker_id, "hame-2025");
+    assert.strictEqual(plan.devices[0].remote_id?.length, 24);
+  });
+
+  test("manual mode without devices fails validation", () => {
+    assert.throws(
+      () => buildRelayPlan({ broker_url: config.broker_url }, brokers, []),
+      /No devices specified/,
+    );
+  });
+
+  test("forward_telemetry selects device families, devices override it", () => {
+    const hmj: Device = {
+      device_id: "0123456789abcdef01234569",
+      mac: "aabbccddee03",
+      type: "HMJ-1",
+      version: 100,
+    };
+    const plan = buildRelayPlan(
+      {
+        ...config,
+        forward_telemetry: ["hma"],
+        devices: [
+          { device_id: devices[1].device_id, forward_telemetry: false },
+        ] as Device[],
+      },
+      brokers,
+      [...devices, hmj],
+    );
+    assert.deepStrictEqual(
+      plan.devices.map((d) => [d.type, d.forward_telemetry]),
+      [
+        ["HMA-1", true],
+        ["HMA-1", false],
+        ["HMJ-1", false],
+      ],
+    );
+    const all = buildRelayPlan(
+      { ...config, forward_telemetry: true },
+      brokers,
+      [hmj],
+    );
+    assert.strictEqual(all.devices[0].forward_telemetry, true);
+  });
+});
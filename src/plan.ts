@@ -0,0 +1,401 @@
+import { calculateNewVersionTopicId } from "./encryption.js";
+import { isSharedAccess, mergeDevices } from "./devices.js";
+import { logger } from "./logger.js";
+import { CommonHelper } from "./topic.js";
+import {
+  brokerForVersion,
+  usesRemoteTopicId,
+  inverseForwardingPolicy,
+  isAstraMeterFamily,
+  isAstraMeterSyntheticMac,
+  normalizeType,
+  supportsVid,
+} from "./device_matrix.js";
+import {
+  Device,
+  BrokerDefinition,
+  ForwarderConfig,
+  MainConfig,
+  DeviceTypeIdentifier,
+  knownDeviceTypes,
+} from "./types.js";
+
+/**
+ * The fully resolved relay setup: every validated device with its broker,
+ * remote id and forwarding direction, grouped into one forwarder per broker.
+ */
+export interface RelayPlan {
+  devices: Device[];
+  forwarders: ForwarderConfig[];
+  /** How each device's `remote_id` was obtained, keyed by `device_id`. */
+  remoteIdMethods: Record<string, RemoteIdMethod>;
+}
+
+/**
+ * - `configured`: `remote_id` set explicitly in the config file
+ * - `astrameter-synthetic-mac`: AES topic encryption of an AstraMeter placeholder MAC
+ * - `salt-cq`: salt-based `CommonHelper.cq`
+ * - `salt-missing`: `cq` applies but no salt could be extracted; device id used
+ * - `topic-encryption-key`: AES topic encryption of the MAC (`calculateNewVersionTopicId`)
+ * - `device-id`: plain device id
+ */
+export type RemoteIdMethod =
+  | "configured"
+  | "astrameter-synthetic-mac"
+  | "salt-cq"
+  | "salt-missing"
+  | "topic-encryption-key"
+  | "device-id";
+
+export interface RemoteIdDerivation {
+  remote_id: string;
+  method: RemoteIdMethod;
+}
+
+/**
+ * Picks the broker for a device based on the device matrix. Devices without a
+ * known firmware version are left unset so they fall back to the configured
+ * default broker.
+ */
+function autoDetermineBroker(device: Device): string | undefined {
+  if (device.version == null) {
+    return undefined;
+  }
+  return brokerForVersion(device.type, device.version);
+}
+
+function cleanAndValidate(config: { devices: Device[] }): void {
+  logger.debug(`Validating ${config.devices.length} devices...`);
+  logger.debug(`Found ${config.devices.length} devices in config file`);
+  if (config.devices.length === 0) {
+    throw new Error("No devices specified in config file");
+  }
+  const remainingDevices: Device[] = [];
+  const errors: string[] = [];
+  for (const device of config.devices) {
+    logger.debug(`Validating device: ${device.device_id}`);
+    try {
+      if (!device.device_id) {
+        throw new Error("Device ID is required");
+      }
+      if (!device.mac) {
+        throw new Error("MAC address is required");
+      }
+      if (!device.type) {
+        throw new Error("Device type is required");
+      }
+      device.device_id = device.device_id.trim();
+      device.mac = device.mac.trim().replace(/:/g, "").toLowerCase();
+      device.type = device.type.trim().toUpperCase() as DeviceTypeIdentifier;
+      if (
+        device.device_id.length !== 12 &&
+        (device.device_id.length < 22 || device.device_id.length > 24)
+      ) {
+        throw new Error(
+          "Device ID must be between 22 and 24 or exactly 12 characters long",
+        );
+      }
+      if (!/^[0-9A-Fa-f]{12}$/.test(device.mac)) {
+        throw new Error(
+          "MAC address must be a 12-character hexadecimal string",
+        );
+      }
+      if (device.type && !knownDeviceTypes.includes(device.type)) {
+        logger.warn(
+          `Unknown device type: ${device.type}. This device will likely not be forwarded.`,
+        );
+      }
+      remainingDevices.push(device);
+    } catch (error) {
+      errors.push(`Device ${device.device_id}: ${(error as Error).message}`);
+    }
+  }
+  config.devices = remainingDevices;
+
+  if (errors.length > 0) {
+    logger.debug(`Found ${errors.length} errors in devices`);
+    if (config.devices.length === 0) {
+      throw new Error(`All devices failed validation:\n${errors.join("\n")}`);
+    } else {
+      logger.warn(`Some devices failed validation:\n${errors.join("\n")}`);
+    }
+  }
+}
+
+/**
+ * Derives the remote topic id for a device without a configured `remote_id`.
+ * `device` must already be normalized (see `cleanAndValidate`) and routed to
+ * `broker`.
+ */
+export function deriveRemoteId(
+  device: Device,
+  broker: BrokerDefinition,
+  brokerId: string,
+): RemoteIdDerivation {
+  // Cloud placeholder MACs from AstraMeter are not real firmware: cq/salt
+  // paths do not apply; remote topics use the same AES id as other HME.
+  // Gate on the HME family too (mirrors the inverse-forwarding check) so a
+  // non-AstraMeter device with a placeholder-like MAC keeps the normal path.
+  if (isAstraMeterFamily(device.type) && isAstraMeterSyntheticMac(device.mac)) {
+    if (!broker.topic_encryption_key) {
+      throw new Error(
+        `Device ${device.device_id}: broker "${brokerId}" has no topic_encryption_key; required to derive remote_id for AstraMeter synthetic MAC (calculateNewVersionTopicId).`,
+      );
+    }
+    logger.debug(
+      `AstraMeter synthetic MAC: remote_id from topic encryption for device ${device.device_id}`,
+    );
+    return {
+      remote_id: calculateNewVersionTopicId(
+        Buffer.from(broker.topic_encryption_key, "hex"),
+        device.mac,
+      ),
+      method: "astrameter-synthetic-mac",
+    };
+  } else if (
+    device.salt &&
+    device.version &&
+    supportsVid(device.type, device.version)
+  ) {
+    logger.debug(
+      `Device ${device.device_id} supports CommonHelper.cq method, using salt-based calculation`,
+    );
+    const firstSalt = CommonHelper.extractFirstSalt(device.salt);
+    if (firstSalt) {
+      const remoteId = CommonHelper.cq(firstSalt, device.mac, device.type);
+      logger.debug(
+        `Calculated remote ID using CommonHelper.cq: ${remoteId} for device ${device.device_id}`,
+      );
+      return { remote_id: remoteId, method: "salt-cq" };
+    } else {
+      logger.warn(
+        `Failed to extract salt for device ${device.device_id}, falling back to alternative method`,
+      );
+      return { remote_id: device.device_id, method: "salt-missing" };
+    }
+  } else if (broker.topic_encryption_key) {
+    logger.debug(`Using topic encryption key for device ${device.device_id}`);
+    const remoteId = calculateNewVersionTopicId(
+      Buffer.from(broker.topic_encryption_key, "hex"),
+      device.mac,
+    );
+    logger.debug(
+      `Calculated remote ID: ${remoteId} for device ${device.device_id}`,
+    );
+    return { remote_id: remoteId, method: "topic-encryption-key" };
+  } else {
+    logger.debug(
+      `No topic encryption key found for device ${device.device_id}, using device ID as remote ID`,
+    );
+    return { remote_id: device.device_id, method: "device-id" };
+  }
+}
+
+/**
+ * Whether `forward_telemetry` from `config.json` covers a device type: `true`
+ * for all devices, or a list of types/families matched by prefix (`"HMA"`
+ * covers `HMA-1`).
+ */
+function telemetryEnabled(
+  setting: MainConfig["forward_telemetry"],
+  type: string,
+): boolean {
+  if (!Array.isArray(setting)) {
+    return setting === true;
+  }
+  const normalized = normalizeType(type);
+  return setting.some((family) => normalized.startsWith(normalizeType(family)));
+}
+
+/**
+ * Resolves broker, forwarding direction and remote topic id for every device
+ * and groups the devices into one forwarder config per broker. `config.devices`
+ * is merged on top of `sourceDevices` (see {@link mergeDevices}). The input
+ * devices are copied, never mutated, so the same device list can be planned
+ * again after a configuration change.
+ */
+export function buildRelayPlan(
+  config: MainConfig,
+  brokers: Record<string, BrokerDefinition>,
+  sourceDevices: Device[],
+): RelayPlan {
+  const devicesConfig = {
+    devices: mergeDevices(sourceDevices, config.devices),
+  };
+
+  // Apply selective inverse forwarding logic
+  const selectiveInverseDeviceIds = new Set<string>();
+  if (config.inverse_forwarding_device_ids) {
+    const deviceIds = config.inverse_forwarding_device_ids
+      .split(",")
+      .map((id) => id.trim())
+      .filter((id) => id.length > 0);
+    deviceIds.forEach((id) => selectiveInverseDeviceIds.add(id));
+    logger.info(
+      `Selective inverse forwarding enabled for device IDs: ${Array.from(selectiveInverseDeviceIds).join(", ")}`,
+    );
+  }
+
+  for (const device of devicesConfig.devices) {
+    // Set inverse forwarding based on device type and configuration
+    if (device.inverse_forwarding === undefined) {
+      if (inverseForwardingPolicy(device.type) === "selectable") {
+        // For selectable device types, check if device ID is in the list
+        device.inverse_forwarding = selectiveInverseDeviceIds.has(
+          device.device_id,
+        );
+        logger.debug(
+          `Device ${device.device_id} (${device.type}): inverse_forwarding = ${device.inverse_forwarding} (selective)`,
+        );
+      } else {
+        // For all other device types, always use inverse forwarding
+        device.inverse_forwarding = true;
+        logger.debug(
+          `Device ${device.device_id} (${device.type}): inverse_forwarding = true (automatic)`,
+        );
+      }
+    } else {
+      logger.debug(
+        `Device ${device.device_id} (${device.type}): inverse_forwarding = ${device.inverse_forwarding} (explicit)`,
+      );
+    }
+  }
+
+  // Apply global inverse_forwarding flip if enabled
+  if (config.inverse_forwarding === true) {
+    logger.info(
+      "Global inverse_forwarding flag is true - flipping all device settings",
+    );
+    for (const device of devicesConfig.devices) {
+      const originalValue = device.inverse_forwarding;
+      device.inverse_forwarding = !device.inverse_forwarding;
+      logger.debug(
+        `Device ${device.device_id} (${device.type}): inverse_forwarding flipped from ${originalValue} to ${device.inverse_forwarding} (global flip)`,
+      );
+    }
+  }
+
+  for (const device of devicesConfig.devices) {
+    device.forward_telemetry ??= telemetryEnabled(
+      config.forward_telemetry,
+      device.type,
+    );
+  }
+
+  for (const device of devicesConfig.devices) {
+    if (!device.broker_id) {
+      const auto = autoDetermineBroker(device);
+      if (auto) {
+        device.broker_id = auto;
+        logger.info(
+          `Auto-selected broker ${auto} for device ${device.device_id}`,
+        );
+      }
+    }
+  }
+
+  cleanAndValidate(devicesConfig);
+
+  for (const device of devicesConfig.devices) {
+    if (
+      isAstraMeterFamily(device.type) &&
+      isAstraMeterSyntheticMac(device.mac) &&
+      device.inverse_forwarding
+    ) {
+      device.inverse_forwarding = false;
+      logger.info(
+        `Device ${device.device_id} (${device.type}): AstraMeter synthetic MAC — inverse forwarding disabled`,
+      );
+    }
+  }
+
+  const defaultId = config.default_broker_id || "hame-2024";
+  const devicesByBroker: Record<string, Device[]> = {};
+  const remoteIdMethods: Record<string, RemoteIdMethod> = {};
+  for (const device of devicesConfig.devices) {
+    const brokerId = device.broker_id || defaultId;
+    logger.debug(`Using broker ID: ${brokerId} for device ${device.device_id}`);
+    const broker = brokers[brokerId];
+    if (!broker) {
+      throw new Error(`Broker '${brokerId}' not defined`);
+    }
+    device.broker_id = brokerId;
+    if (device.remote_id) {
+      remoteIdMethods[device.device_id] = "configured";
+    } else {
+      const derivation = deriveRemoteId(device, broker, brokerId);
+      device.remote_id = derivation.remote_id;
+      remoteIdMethods[device.device_id] = derivation.method;
+    }
+    if (device.use_remote_topic_id == null && device.version != null) {
+      const autoRemote = usesRemoteTopicId(device.type, device.version);
+      if (autoRemote) {
+        device.use_remote_topic_id = true;
+        logger.debug(`Enabled remote topic ID for device ${device.device_id}`);
+      }
+    }
+    logger.debug(`Adding device ${device.device_id} to broker ${brokerId}`);
+    (devicesByBroker[brokerId] ??= []).push(device);
+  }
+
+  const forwarders = Object.entries(devicesByBroker).map(
+    ([id, devices]): ForwarderConfig => ({
+      broker_url: config.broker_url,
+      broker_protocol_version: config.broker_protocol_version,
+      devices,
+      inverse_forwarding: config.inverse_forwarding,
+      read_only: config.read_only,
+      username: config.username,
+      password: config.password,
+      remote: brokers[id],
+      broker_id: id,
+      message_history_max_entries: config.message_history_max_entries,
+      telemetry_interval_seconds: config.telemetry_interval_seconds,
+      poll_interval_seconds: config.poll_interval_seconds,
+      poll_payload: config.poll_payload,
+      command_rules: config.command_rules,
+      rate_limit: config.rate_limit,
+    }),
+  );
+
+  return { devices: devicesConfig.devices, forwarders, remoteIdMethods };
+}
+
+export function logPlanSummary(plan: RelayPlan, config: MainConfig): void {
+  logger.info(`\nConfigured devices: ${plan.devices.length} total`);
+  logger.info("------------------");
+  plan.devices.forEach((device, index) => {
+    logger.info(`Device ${index + 1}:`);
+    logger.info(`  Name: ${device.name || "Not specified"}`);
+    logger.info(`  Device ID: ${device.device_id}`);
+    logger.info(`  Remote ID: ${device.remote_id}`);
+    logger.info(`  MAC: ${device.mac}`);
+    logger.info(`  Type: ${device.type}`);
+    logger.info(`  Version: ${device.version ?? "Unknown"}`);
+    logger.info(`  Broker: ${device.broker_id}`);
+    logger.info(`  Account: ${device.account ?? "Config file"}`);
+    if (device.sn) {
+      logger.info(`  Serial Number: ${device.sn}`);
+    }
+    if (device.bluetooth_name) {
+      logger.info(`  Bluetooth Name: ${device.bluetooth_name}`);
+    }
+    if (device.access) {
+      logger.info(
+        `  Access: ${device.access} (${isSharedAccess(device.access) ? "shared" : "owner"})`,
+      );
+    }
+    logger.info(
+      `  Inverse Forwarding: ${device.inverse_forwarding ?? config.inverse_forwarding ?? false}`,
+    );
+    logger.info(
+      `  Use Remote Topic ID: ${device.use_remote_topic_id ?? false}`,
+    );
+    logger.info(`  Forward Telemetry: ${device.forward_telemetry ?? false}`);
+    logger.info(
+      `  Read Only: ${device.read_only ?? config.read_only ?? false}`,
+    );
+    logger.info("------------------");
+  });
+  logger.info("");
+}
@@ -0,0 +1,96 @@
+import { test, describe, afterEach } from "node:test";
+import assert from "node:assert";
+import { DevicePoller, DEFAULT_POLL_PAYLOAD } from "./poller.js";
+import { Device } from "./types.js";
+
+const device = (device_id: string, extra: Partial<Device> = {}): Device => ({
+  device_id,
+  mac: "aabbccddeeff",
+  type: "HMA-1",
+  ...extra,
+});
+
+describe("DevicePoller", () => {
+  let time = 0;
+  let polls: [string, string][] = [];
+  const pollers: DevicePoller[] = [];
+
+  const create = () => {
+    time = 0;
+    polls = [];
+    const poller = new DevicePoller(
+      (d) => d.device_id,
+      (d, payload) => polls.push([d.device_id, payload]),
+      () => time,
+    );
+    pollers.push(poller);
+    return poller;
+  };
+
+  afterEach(() => pollers.forEach((poller) => poller.stop()));
+
+  test("polls devices once per interval with their payload", () => {
+    const poller = create();
+    poller.update(
+      [device("a"), device("b", { poll_payload: "cd=20" }), device("c")],
+      { interval_seconds: 10 },
+    );
+    time = 10_000;
+    poller.tick();
+    assert.deepStrictEqual(polls, [
+      ["a", DEFAULT_POLL_PAYLOAD],
+      ["b", "cd=20"],
+      ["c", DEFAULT_POLL_PAYLOAD],
+    ]);
+    time = 15_000;
+    poller.tick();
+    assert.strictEqual(polls.length, 3);
+    time = 20_000;
+    poller.tick();
+    assert.strictEqual(polls.length, 6);
+  });
+
+  test("per-device intervals override the default and 0 disables", () => {
+    const withDefault = create();
+    withDefault.update(
+      [device("a", { poll_interval_seconds: 0 }), device("b")],
+      { interval_seconds: 5 },
+    );
+    assert.strictEqual(withDefault.size, 1);
+    const poller = create();
+    poller.update([device("a", { poll_interval_seconds: 5 }), device("b")]);
+    assert.strictEqual(poller.size, 1);
+    time = 5_000;
+    poller.tick();
+    assert.deepStrictEqual(polls, [["a", DEFAULT_POLL_PAYLOAD]]);
+  });
+
+  test("pauses while App traffic is flowing", () => {
+    const poller = create();
+    poller.update([device("a")], { interval_seconds: 10 });
+    time = 9_000;
+    poller.noteAppTraffic("a");
+    time = 10_000;
+    poller.tick();
+    assert.deepStrictEqual(polls, []);
+    time = 20_000;
+    poller.tick();
+    assert.deepStrictEqual(polls, [["a", DEFAULT_POLL_PAYLOAD]]);
+  });
+
+  test("keeps the schedule of unchanged devices on update", () => {
+    const poller = create();
+    poller.update([device("a")], { interval_seconds: 10 });
+    time = 10_000;
+    poller.tick();
+    poller.update([device("a"), device("b")], { interval_seconds: 10 });
+    const pollsOf = (id: string) => polls.filter(([d]) => d === id).length;
+    time = 15_000;
+    poller.tick();
+    assert.strictEqual(pollsOf("a"), 1);
+    time = 20_000;
+    poller.tick();
+    assert.strictEqual(pollsOf("a"), 2);
+    assert.strictEqual(pollsOf("b"), 1);
+  });
+});
@@ -0,0 +1,109 @@
+import { Device } from "./types.js";
+
+/** Status request of the Hame protocol; devices answer with their state. */
+export const DEFAULT_POLL_PAYLOAD = "cd=1";
+
+/** How often the poller checks which devices are due. */
+const POLL_TICK_MS = 1000;
+
+export interface PollSettings {
+  /** Seconds between polls; unset or `0` disables polling. */
+  interval_seconds?: number;
+  payload?: string;
+}
+
+interface PolledDevice {
+  device: Device;
+  intervalMs: number;
+  payload: string;
+  nextPollAt: number;
+}
+
+/**
+ * Sends a status request to every device with a poll interval, so local
+ * consumers get regular updates without the App. A device is not polled
+ * while App requests for it are being forwarded, and its next poll is pushed
+ * back by a full interval after each one.
+ */
+export class DevicePoller {
+  private devices: Map<string, PolledDevice> = new Map();
+  private lastAppTraffic: Map<string, number> = new Map();
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly keyOf: (device: Device) => string,
+    private readonly poll: (device: Device, payload: string) => void,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Replaces the polled devices. Devices that keep their interval keep their
+   * schedule; new ones are spread over their first interval.
+   */
+  public update(devices: Device[], defaults: PollSettings = {}): void {
+    const next: Map<string, PolledDevice> = new Map();
+    for (const device of devices) {
+      const seconds =
+        device.poll_interval_seconds ?? defaults.interval_seconds ?? 0;
+      if (seconds <= 0) {
+        continue;
+      }
+      const key = this.keyOf(device);
+      const intervalMs = seconds * 1000;
+      const existing = this.devices.get(key);
+      next.set(key, {
+        device,
+        intervalMs,
+        payload:
+          device.poll_payload ?? defaults.payload ?? DEFAULT_POLL_PAYLOAD,
+        nextPollAt:
+          existing?.intervalMs === intervalMs
+            ? existing.nextPollAt
+            : this.now() + Math.random() * intervalMs,
+      });
+    }
+    this.devices = next;
+    for (const key of this.lastAppTraffic.keys()) {
+      if (!next.has(key)) {
+        this.lastAppTraffic.delete(key);
+      }
+    }
+    if (next.size > 0) {
+      this.timer ??= setInterval(() => this.tick(), POLL_TICK_MS);
+    } else {
+      this.stop();
+    }
+  }
+
+  /** Records a forwarded App message for the device with this key. */
+  public noteAppTraffic(key: string): void {
+    if (this.devices.has(key)) {
+      this.lastAppTraffic.set(key, this.now());
+    }
+  }
+
+  /** Polls every device that is due. Called by the timer. */
+  public tick(): void {
+    const now = this.now();
+    for (const [key, entry] of this.devices.entries()) {
+      if (entry.nextPollAt > now) {
+        continue;
+      }
+      entry.nextPollAt = now + entry.intervalMs;
+      const lastApp = this.lastAppTraffic.get(key);
+      if (lastApp !== undefined && now - lastApp < entry.intervalMs) {
+        continue; // The App is active and already fetching the status
+      }
+      this.poll(entry.device, entry.payload);
+    }
+  }
+
+  public get size(): number {
+    return this.devices.size;
+  }
+
+  public stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
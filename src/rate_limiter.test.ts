@@ -0,0 +1,73 @@
+import { test, describe } from "node:test";
+import assert from "node:assert";
+import { RateLimiter } from "./rate_limiter.js";
+import { RateLimitsConfig } from "./types.js";
+
+describe("RateLimiter", () => {
+  let time = 0;
+  const create = (limits: RateLimitsConfig) => {
+    time = 0;
+    return new RateLimiter(limits, () => time);
+  };
+
+  test("does not limit directions without a limit", () => {
+    const limiter = create({ remote_to_local: { messages_per_second: 1 } });
+    for (let i = 0; i < 100; i++) {
+      assert.strictEqual(limiter.reserve("dev", "local_to_remote"), 0);
+    }
+    assert.deepStrictEqual(limiter.getStats(), {});
+    assert.strictEqual(limiter.size, 0);
+  });
+
+  test("allows a burst, then delays and finally drops messages", () => {
+    const limiter = create({
+      local_to_remote: { messages_per_second: 2, burst: 2, max_delay_ms: 1000 },
+    });
+    assert.strictEqual(limiter.reserve("dev", "local_to_remote"), 0);
+    assert.strictEqual(limiter.reserve("dev", "local_to_remote"), 0);
+    assert.strictEqual(limiter.reserve("dev", "local_to_remote"), 500);
+    assert.strictEqual(limiter.reserve("dev", "local_to_remote"), 1000);
+    assert.strictEqual(limiter.reserve("dev", "local_to_remote"), undefined);
+    assert.deepStrictEqual(limiter.getStats(), {
+      dev: { local_to_remote: { delayed: 2, dropped: 1 } },
+    });
+  });
+
+  test("refills tokens over time", () => {
+    const limiter = create({
+      remote_to_local: { messages_per_second: 1, burst: 1, max_delay_ms: 0 },
+    });
+    assert.strictEqual(limiter.reserve("dev", "remote_to_local"), 0);
+    time = 500;
+    assert.strictEqual(limiter.reserve("dev", "remote_to_local"), undefined);
+    time = 1000;
+    assert.strictEqual(limiter.reserve("dev", "remote_to_local"), 0);
+  });
+
+  test("keeps a bucket per device and direction", () => {
+    const limit = { messages_per_second: 1, burst: 1, max_delay_ms: 0 };
+    const limiter = create({ local_to_remote: limit, remote_to_local: limit });
+    assert.strictEqual(limiter.reserve("a", "local_to_remote"), 0);
+    assert.strictEqual(limiter.reserve("a", "remote_to_local"), 0);
+    assert.strictEqual(limiter.reserve("b", "local_to_remote"), 0);
+    assert.strictEqual(limiter.reserve("a", "local_to_remote"), undefined);
+    assert.deepStrictEqual(limiter.getStats(), {
+      a: { local_to_remote: { delayed: 0, dropped: 1 } },
+    });
+  });
+
+  test("cleanup drops refilled buckets", () => {
+    const limiter = create({
+      local_to_remote: { messages_per_second: 1, burst: 2 },
+    });
+    limiter.reserve("a", "local_to_remote");
+    time = 500;
+    limiter.reserve("b", "local_to_remote");
+    time = 1000;
+    limiter.cleanup();
+    assert.strictEqual(limiter.size, 1);
+    time = 1500;
+    limiter.cleanup();
+    assert.strictEqual(limiter.size, 0);
+  });
+});
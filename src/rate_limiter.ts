@@ -0,0 +1,147 @@
+import { RateLimitConfig, RateLimitsConfig } from "./types.js";
+
+/** Tokens a device may spend at once when `burst` is not set. */
+export const DEFAULT_RATE_LIMIT_BURST = 10;
+
+/** How long a message may wait for a token when `max_delay_ms` is not set. */
+export const DEFAULT_RATE_LIMIT_MAX_DELAY_MS = 2000;
+
+export type ForwardingDirection = keyof RateLimitsConfig;
+
+/** Messages held back or dropped by a rate limit. */
+export interface RateLimitStats {
+  delayed: number;
+  dropped: number;
+}
+
+export type DeviceRateLimitStats = Partial<
+  Record<ForwardingDirection, RateLimitStats>
+>;
+
+/**
+ * Token bucket: holds up to `burst` tokens and gains `messages_per_second`
+ * of them per second. A message that finds no token reserves the next one,
+ * so the bucket goes negative and later messages wait in order.
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(
+    private readonly limit: RateLimitConfig,
+    now: number,
+  ) {
+    this.tokens = this.burst;
+    this.updatedAt = now;
+  }
+
+  private get burst(): number {
+    return this.limit.burst ?? DEFAULT_RATE_LIMIT_BURST;
+  }
+
+  /** Whether the bucket has refilled completely, so it limits nothing. */
+  public isFull(now: number): boolean {
+    this.refill(now);
+    return this.tokens >= this.burst;
+  }
+
+  /**
+   * Takes a token and returns how many milliseconds the message has to wait
+   * for it, or undefined (taking nothing) if that exceeds `max_delay_ms`.
+   */
+  public reserve(now: number): number | undefined {
+    this.refill(now);
+    const remaining = this.tokens - 1;
+    const delayMs =
+      remaining < 0 ? (-remaining / this.limit.messages_per_second) * 1000 : 0;
+    if (
+      delayMs > (this.limit.max_delay_ms ?? DEFAULT_RATE_LIMIT_MAX_DELAY_MS)
+    ) {
+      return undefined;
+    }
+    this.tokens = remaining;
+    return Math.ceil(delayMs);
+  }
+
+  private refill(now: number): void {
+    const elapsedSeconds = Math.max(0, now - this.updatedAt) / 1000;
+    this.tokens = Math.min(
+      this.burst,
+      this.tokens + elapsedSeconds * this.limit.messages_per_second,
+    );
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Rate limits forwarded messages per device and direction. Directions
+ * without a configured limit are not limited.
+ */
+export class RateLimiter {
+  private buckets: Map<string, TokenBucket> = new Map();
+  private stats: Map<string, DeviceRateLimitStats> = new Map();
+
+  constructor(
+    private limits: RateLimitsConfig = {},
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /** Replaces the limits; buckets start over, counters are kept. */
+  public setLimits(limits: RateLimitsConfig = {}): void {
+    this.limits = limits;
+    this.buckets.clear();
+  }
+
+  /**
+   * Returns how many milliseconds a message for `device` in `direction` has
+   * to be delayed (`0` to send it now), or undefined if it has to be dropped.
+   */
+  public reserve(
+    device: string,
+    direction: ForwardingDirection,
+  ): number | undefined {
+    const limit = this.limits[direction];
+    if (!limit) {
+      return 0;
+    }
+    const now = this.now();
+    const key = `${direction}:${device}`;
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(limit, now);
+      this.buckets.set(key, bucket);
+    }
+    const delayMs = bucket.reserve(now);
+    if (delayMs === 0) {
+      return delayMs;
+    }
+    const counts = this.stats.get(device) ?? {};
+    const stats = (counts[direction] ??= { delayed: 0, dropped: 0 });
+    if (delayMs === undefined) {
+      stats.dropped++;
+    } else {
+      stats.delayed++;
+    }
+    this.stats.set(device, counts);
+    return delayMs;
+  }
+
+  /** Counters of the devices that were limited, by device. */
+  public getStats(): Record<string, DeviceRateLimitStats> {
+    return Object.fromEntries(this.stats);
+  }
+
+  /** Drops buckets that have refilled; they are recreated on demand. */
+  public cleanup(): void {
+    const now = this.now();
+    for (const [key, bucket] of this.buckets.entries()) {
+      if (bucket.isFull(now)) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  public get size(): number {
+    return this.buckets.size;
+  }
+}
@@ -0,0 +1,147 @@
+import { test, describe } from "node:test";
+import assert from "node:assert";
+import { HealthServer } from "./health.js";
+import { MQTTForwarder } from "./mqtt_forwarder.js";
+import { RelayPlan } from "./plan.js";
+import { Relay } from "./relay.js";
+import { ForwarderConfig } from "./types.js";
+
+class StubForwarder {
+  public closed = false;
+
+  constructor(public config: ForwarderConfig) {}
+
+  canUpdate(config: ForwarderConfig): boolean {
+    return config.remote.cert === this.config.remote.cert;
+  }
+
+  updateConfig(config: ForwarderConfig): void {
+    assert.ok(!this.closed, "updated a closed forwarder");
+    this.config = config;
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  async shutdown(): Promise<void> {
+    this.closed = true;
+  }
+
+  getRemoteBroker(): unknown {
+    return { id: this.config.broker_id };
+  }
+
+  getConfigBroker(): unknown {
+    return { id: "local" };
+  }
+}
+
+class StubHealthServer {
+  public brokers = new Set<string>();
+  public forwarders = new Set<string>();
+  public devices: unknown[] = [];
+
+  addBroker(id: string): void {
+    this.brokers.add(id);
+  }
+
+  removeBroker(id: string): void {
+    this.brokers.delete(id);
+    this.forwarders.delete(id);
+  }
+
+  addForwarderStats(id: string): void {
+    this.forwarders.add(id);
+  }
+
+  setDevices(devices: unknown[]): void {
+    this.devices = devices;
+  }
+}
+
+const forwarder = (broker_id: string, cert = "cert"): ForwarderConfig => ({
+  broker_url: "mqtt://localhost:1883",
+  devices: [],
+  remote: { url: "mqtts://example.invalid", ca: "ca", cert, key: "key" },
+  broker_id,
+});
+
+const plan = (...forwarders: ForwarderConfig[]): RelayPlan => ({
+  devices: forwarders.map((f) => ({
+    device_id: `device-${f.broker_id}`,
+    mac: "aabbccddeeff",
+    type: "HMA-1",
+    broker_id: f.broker_id,
+  })),
+  forwarders,
+  remoteIdMethods: {},
+});
+
+describe("Relay", () => {
+  const setup = () => {
+    const health = new StubHealthServer();
+    const created: StubForwarder[] = [];
+    const failing = new Set<string>();
+    const relay = new Relay(health as unknown as HealthServer, (config) => {
+      if (failing.has(config.remote.cert)) {
+        throw new Error("PEM routines::no start line");
+      }
+      const fw = new StubForwarder(config);
+      created.push(fw);
+      return fw as unknown as MQTTForwarder;
+    });
+    return { relay, health, created, failing };
+  };
+
+  test("updates forwarders in place and reconnects on changed settings", () => {
+    const { relay, created } = setup();
+    relay.apply(plan(forwarder("a"), forwarder("b")));
+    relay.apply(plan(forwarder("a"), forwarder("b", "new-cert")));
+    assert.strictEqual(created.length, 3);
+    assert.deepStrictEqual(
+      created.map((fw) => fw.closed),
+      [false, true, false],
+    );
+  });
+
+  test("removes forwarders that are no longer planned", () => {
+    const { relay, health, created } = setup();
+    relay.apply(plan(forwarder("a"), forwarder("b")));
+    relay.apply(plan(forwarder("a")));
+    assert.strictEqual(created[1].closed, true);
+    assert.deepStrictEqual([...health.brokers], ["a", "local"]);
+    assert.deepStrictEqual([...health.forwarders], ["a"]);
+  });
+
+  test("drops a forwarder that fails to restart and applies the rest", () => {
+    const { relay, health, created, failing } = setup();
+    relay.apply(plan(forwarder("a"), forwarder("b")));
+    failing.add("half-written");
+    assert.throws(
+      () => relay.apply(plan(forwarder("a", "half-written"), forwarder("b"))),
+      /no start line/,
+    );
+    assert.strictEqual(created[0].closed, true);
+    assert.deepStrictEqual([...health.brokers], ["b", "local"]);
+    assert.deepStrictEqual([...health.forwarders], ["b"]);
+    assert.strictEqual(health.devices.length, 2);
+
+    // Restoring the old certificate starts a new forwarder instead of
+    // updating the closed one
+    relay.apply(plan(forwarder("a"), forwarder("b")));
+    assert.strictEqual(created.length, 3);
+    assert.strictEqual(created[2].closed, false);
+    assert.ok(health.forwarders.has("a"));
+  });
+
+  test("ignores plans after shutdown", async () => {
+    const { relay, health, created } = setup();
+    relay.apply(plan(forwarder("a")));
+    await relay.shutdown();
+    relay.apply(plan(forwarder("a"), forwarder("b")));
+    assert.strictEqual(created.length, 1);
+    assert.strictEqual(created[0].closed, true);
+    assert.strictEqual(health.brokers.size, 0);
+  });
+});
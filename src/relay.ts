@@ -0,0 +1,140 @@
+import { isSharedAccess } from "./devices.js";
+import { HealthServer } from "./health.js";
+import { logger } from "./logger.js";
+import { MQTTForwarder } from "./mqtt_forwarder.js";
+import { RelayPlan } from "./plan.js";
+import { ForwarderConfig } from "./types.js";
+
+/**
+ * Owns the running forwarders (one per remote broker) and reconciles them with
+ * a new {@link RelayPlan}. Forwarders whose connection settings are unchanged
+ * are updated in place and keep their MQTT sessions.
+ */
+export class Relay {
+  private forwarders: Map<string, MQTTForwarder> = new Map();
+  private stopped = false;
+
+  constructor(
+    private readonly healthServer: HealthServer,
+    private readonly createForwarder: (
+      config: ForwarderConfig,
+    ) => MQTTForwarder = (config) => new MQTTForwarder(config),
+  ) {}
+
+  /**
+   * Applies every forwarder of the plan that can be started. A forwarder that
+   * fails to start (e.g. unreadable certificates) is dropped rather than left
+   * running on its previous settings; the first such error is thrown once the
+   * rest of the plan is in place.
+   */
+  public apply(plan: RelayPlan): void {
+    if (this.stopped) {
+      // A reload or refresh that finished during shutdown
+      logger.debug("Relay is shutting down; not applying the new plan");
+      return;
+    }
+    const wanted = new Set(plan.forwarders.map((f) => f.broker_id));
+
+    for (const [id, forwarder] of this.forwarders.entries()) {
+      if (!wanted.has(id)) {
+        logger.info(`Removing forwarder for broker ${id}`);
+        forwarder.close();
+        this.forwarders.delete(id);
+        this.healthServer.removeBroker(id);
+      }
+    }
+
+    let failure: unknown;
+    for (const fconfig of plan.forwarders) {
+      const id = fconfig.broker_id;
+      const existing = this.forwarders.get(id);
+      if (existing && existing.canUpdate(fconfig)) {
+        existing.updateConfig(fconfig);
+        continue;
+      }
+      if (existing) {
+        logger.info(`Broker ${id} connection settings changed, reconnecting`);
+      } else {
+        logger.debug(`Setting up forwarder for broker ${id}`);
+      }
+      let fw: MQTTForwarder;
+      try {
+        fw = this.createForwarder(fconfig);
+      } catch (error) {
+        logger.error(error, `Failed to set up forwarder for broker ${id}`);
+        existing?.close();
+        this.forwarders.delete(id);
+        this.healthServer.removeBroker(id);
+        failure ??= error;
+        continue;
+      }
+      existing?.close();
+      this.forwarders.set(id, fw);
+      this.healthServer.addBroker(id, fw.getRemoteBroker());
+      this.healthServer.addForwarderStats(id, fw);
+    }
+
+    this.healthServer.setDevices(
+      plan.devices.map(
+        ({
+          device_id,
+          name,
+          type,
+          broker_id,
+          account,
+          sn,
+          bluetooth_name,
+          access,
+        }) => ({
+          device_id,
+          name,
+          type,
+          broker_id,
+          account,
+          sn,
+          bluetooth_name,
+          access,
+          shared: isSharedAccess(access),
+        }),
+      ),
+    );
+
+    const first = this.forwarders.values().next().value;
+    if (first) {
+      this.healthServer.addBroker("local", first.getConfigBroker());
+    } else {
+      this.healthServer.removeBroker("local");
+    }
+
+    if (failure !== undefined) {
+      throw failure;
+    }
+  }
+
+  public close(): void {
+    for (const forwarder of this.forwarders.values()) {
+      forwarder.close();
+    }
+    this.clear();
+  }
+
+  /**
+   * Stops forwarding and disconnects every forwarder cleanly, waiting for
+   * pending publishes. Later plans are ignored.
+   */
+  public async shutdown(): Promise<void> {
+    this.stopped = true;
+    const forwarders = [...this.forwarders.values()];
+    await Promise.all(forwarders.map((forwarder) => forwarder.shutdown()));
+    this.clear();
+  }
+
+  private clear(): void {
+    for (const id of this.forwarders.keys()) {
+      this.healthServer.removeBroker(id);
+    }
+    this.forwarders.clear();
+    this.healthServer.removeBroker("local");
+    this.healthServer.setDevices([]);
+  }
+}
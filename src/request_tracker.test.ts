@@ -0,0 +1,76 @@
+import { test, describe } from "node:test";
+import assert from "node:assert";
+import { parseCommandCode, RequestTracker } from "./request_tracker.js";
+
+describe("parseCommandCode", () => {
+  test("reads the cd field", () => {
+    assert.strictEqual(parseCommandCode("cd=1"), "1");
+    assert.strictEqual(parseCommandCode(Buffer.from("cd=20,md=0")), "20");
+    assert.strictEqual(parseCommandCode("md=0,cd=04"), "04");
+  });
+
+  test("ignores payloads without a command code", () => {
+    assert.strictEqual(parseCommandCode("p1=1,p2=0,w1=120"), undefined);
+    assert.strictEqual(parseCommandCode("acd=3"), undefined);
+  });
+});
+
+describe("RequestTracker", () => {
+  test("answers several outstanding requests in order", () => {
+    const tracker = new RequestTracker(100);
+    tracker.recordRequest("dev", "1", 5000, 0);
+    tracker.recordRequest("dev", "20", 5000, 100);
+    assert.strictEqual(tracker.size, 2);
+    assert.strictEqual(
+      tracker.matchResponse("dev", undefined, 200)?.command,
+      "1",
+    );
+    assert.strictEqual(
+      tracker.matchResponse("dev", undefined, 300)?.command,
+      "20",
+    );
+    assert.strictEqual(tracker.matchResponse("dev", undefined, 400), undefined);
+  });
+
+  test("matches a reply to the request with the same command code", () => {
+    const tracker = new RequestTracker(100);
+    tracker.recordRequest("dev", "1", 5000, 0);
+    tracker.recordRequest("dev", "20", 5000, 100);
+    assert.strictEqual(tracker.matchResponse("dev", "20", 200)?.command, "20");
+    assert.strictEqual(tracker.matchResponse("dev", "20", 300)?.command, "1");
+  });
+
+  test("keeps requests per device", () => {
+    const tracker = new RequestTracker(100);
+    tracker.recordRequest("a", "1", 5000, 0);
+    assert.strictEqual(tracker.matchResponse("b", undefined, 100), undefined);
+    assert.ok(tracker.matchResponse("a", undefined, 100));
+  });
+
+  test("does not answer expired requests", () => {
+    const tracker = new RequestTracker(100);
+    tracker.recordRequest("dev", "1", 1000, 0);
+    tracker.recordRequest("dev", "1", 5000, 500);
+    const match = tracker.matchResponse("dev", undefined, 3000);
+    assert.strictEqual(match?.sentAt, 500);
+    tracker.recordRequest("dev", "1", 1000, 4000);
+    tracker.cleanup(6000);
+    assert.strictEqual(tracker.size, 0);
+  });
+
+  test("drops the oldest requests beyond the cap", () => {
+    const tracker = new RequestTracker(2);
+    tracker.recordRequest("a", "1", 5000, 0);
+    tracker.recordRequest("b", "2", 5000, 100);
+    tracker.recordRequest("a", "3", 5000, 200);
+    assert.strictEqual(tracker.size, 2);
+    assert.strictEqual(
+      tracker.matchResponse("a", undefined, 300)?.command,
+      "3",
+    );
+    assert.strictEqual(
+      tracker.matchResponse("b", undefined, 300)?.command,
+      "2",
+    );
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Correlates device replies with the App requests that were forwarded to the
+ * device. Only replies to a forwarded request are sent back, so the relay
+ * does not flood the other broker with telemetry nobody asked for.
+ */
+
+/** An App request that has not been answered yet. */
+export interface PendingRequest {
+  /** Command code (`cd=`) of the request, if the payload carries one. */
+  command?: string;
+  sentAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Extracts the command code from a Hame payload such as `cd=1` or
+ * `cd=20,md=0,...`. Returns undefined for payloads without one.
+ */
+export function parseCommandCode(message: Buffer | string): string | undefined {
+  const text =
+    typeof message === "string" ? message : message.toString("latin1", 0, 256);
+  return /(?:^|[,&])cd=([^,&\s]+)/.exec(text)?.[1];
+}
+
+/**
+ * Outstanding requests per device, oldest first. Several quick App commands
+ * can be in flight at once; each reply answers one of them.
+ */
+export class RequestTracker {
+  private pending: Map<string, PendingRequest[]> = new Map();
+
+  /** `maxEntries` caps the requests kept across all devices. */
+  constructor(private maxEntries: number) {}
+
+  public setMaxEntries(maxEntries: number): void {
+    this.maxEntries = maxEntries;
+  }
+
+  public get size(): number {
+    let size = 0;
+    for (const requests of this.pending.values()) {
+      size += requests.length;
+    }
+    return size;
+  }
+
+  public recordRequest(
+    deviceKey: string,
+    command: string | undefined,
+    timeoutMs: number,
+    now: number = Date.now(),
+  ): void {
+    const requests = this.pending.get(deviceKey) ?? [];
+    requests.push({ command, sentAt: now, expiresAt: now + timeoutMs });
+    this.pending.set(deviceKey, requests);
+    while (this.size > this.maxEntries) {
+      this.dropOldest();
+    }
+  }
+
+  /**
+   * Consumes the request a reply answers: the oldest one with the same
+   * command code if the reply carries one, otherwise the oldest one. Returns
+   * undefined if no request is outstanding.
+   */
+  public matchResponse(
+    deviceKey: string,
+    command: string | undefined,
+    now: number = Date.now(),
+  ): PendingRequest | undefined {
+    const requests = this.pending.get(deviceKey);
+    if (!requests) {
+      return undefined;
+    }
+    const live = requests.filter((request) => request.expiresAt >= now);
+    let index = -1;
+    if (command !== undefined) {
+      index = live.findIndex((request) => request.command === command);
+    }
+    if (index === -1) {
+      index = live.length > 0 ? 0 : -1;
+    }
+    const [match] = index === -1 ? [] : live.splice(index, 1);
+    this.store(deviceKey, live);
+    return match;
+  }
+
+  /** Drops expired requests. */
+  public cleanup(now: number = Date.now()): void {
+    for (const [deviceKey, requests] of this.pending.entries()) {
+      this.store(
+        deviceKey,
+        requests.filter((request) => request.expiresAt >= now),
+      );
+    }
+  }
+
+  private store(deviceKey: string, requests: PendingRequest[]): void {
+    if (requests.length > 0) {
+      this.pending.set(deviceKey, requests);
+    } else {
+      this.pending.delete(deviceKey);
+    }
+  }
+
+  private dropOldest(): void {
+    let oldestKey: string | undefined;
+    let oldest: PendingRequest | undefined;
+    for (const [deviceKey, [first]] of this.pending.entries()) {
+      if (!oldest || first.sentAt < oldest.sentAt) {
+        oldestKey = deviceKey;
+        oldest = first;
+      }
+    }
+    if (oldestKey !== undefined) {
+      this.store(oldestKey, this.pending.get(oldestKey)!.slice(1));
+    }
+  }
+}
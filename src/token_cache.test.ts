@@ -0,0 +1,60 @@
+import { test, describe } from "node:test";
+import assert from "node:assert";
+import { mkdtempSync, writeFileSync, statSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { TokenCache } from "./token_cache.js";
+
+const url = "https://eu.hamedata.com";
+
+function tempPath(): string {
+  return join(mkdtempSync(join(tmpdir(), "hame-relay-")), "tokens.json");
+}
+
+describe("TokenCache", () => {
+  test("keeps tokens per endpoint and account", () => {
+    const tokens = new TokenCache();
+    tokens.set(url, "a@example.com", "ta");
+    tokens.set("https://us.hamedata.com", "a@example.com", "tb");
+    assert.strictEqual(tokens.get(`${url}/`, "a@example.com"), "ta");
+    assert.strictEqual(tokens.get(url, "b@example.com"), undefined);
+    tokens.invalidate(url, "a@example.com");
+    assert.strictEqual(tokens.get(url, "a@example.com"), undefined);
+    assert.strictEqual(
+      tokens.get("https://us.hamedata.com", "a@example.com"),
+      "tb",
+    );
+  });
+
+  test("drops expired tokens", () => {
+    const tokens = new TokenCache(undefined, -1);
+    tokens.set(url, "a@example.com", "ta");
+    assert.strictEqual(tokens.get(url, "a@example.com"), undefined);
+  });
+
+  test("persists tokens with owner-only permissions", () => {
+    const path = tempPath();
+    new TokenCache(path).set(url, "a@example.com", "ta");
+    assert.strictEqual(statSync(path).mode & 0o777, 0o600);
+    assert.strictEqual(new TokenCache(path).get(url, "a@example.com"), "ta");
+  });
+
+  test("a read-only cache reads the file but does not write it", () => {
+    const path = tempPath();
+    new TokenCache(path).set(url, "a@example.com", "ta");
+    const readOnly = new TokenCache(path, undefined, true);
+    assert.strictEqual(readOnly.get(url, "a@example.com"), "ta");
+    readOnly.set(url, "a@example.com", "tb");
+    assert.strictEqual(readOnly.get(url, "a@example.com"), "tb");
+    assert.strictEqual(new TokenCache(path).get(url, "a@example.com"), "ta");
+  });
+
+  test("ignores an unreadable file", () => {
+    const path = tempPath();
+    writeFileSync(path, "{not json");
+    assert.strictEqual(
+      new TokenCache(path).get(url, "a@example.com"),
+      undefined,
+    );
+  });
+});
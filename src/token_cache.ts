@@ -0,0 +1,132 @@
+import { readFileSync, writeFileSync, renameSync } from "fs";
+import { DeviceMetadata } from "./hame_api.js";
+import { logger } from "./logger.js";
+
+/**
+ * The login response carries no expiry, so tokens are trusted for this long
+ * and dropped earlier if the device list call rejects them.
+ */
+export const DEFAULT_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface CachedToken {
+  token: string;
+  expires_at: number;
+  /** Device metadata from the login that issued the token. */
+  devices?: DeviceMetadata[];
+}
+
+type TokenCacheFile = Record<string, CachedToken>;
+
+/**
+ * Hame API session tokens per endpoint and account. Kept in memory and, when
+ * a path is given, persisted so a restart does not log in again. Tokens grant
+ * account access, so the file is written with owner-only permissions.
+ */
+export class TokenCache {
+  private tokens?: Map<string, CachedToken>;
+
+  /** A `readOnly` cache loads the file but keeps changes in memory. */
+  constructor(
+    private readonly path?: string,
+    private readonly ttlMs: number = DEFAULT_TOKEN_TTL_MS,
+    private readonly readOnly = false,
+  ) {}
+
+  public get(baseUrl: string, mailbox: string): string | undefined {
+    return this.lookup(baseUrl, mailbox)?.token;
+  }
+
+  /**
+   * Devices as reported by the login that issued the current token; the
+   * device list endpoint does not return these fields.
+   */
+  public metadata(baseUrl: string, mailbox: string): DeviceMetadata[] {
+    return this.lookup(baseUrl, mailbox)?.devices ?? [];
+  }
+
+  public set(
+    baseUrl: string,
+    mailbox: string,
+    token: string,
+    devices: DeviceMetadata[] = [],
+  ): void {
+    this.entries().set(this.key(baseUrl, mailbox), {
+      token,
+      expires_at: Date.now() + this.ttlMs,
+      devices,
+    });
+    this.save();
+  }
+
+  public invalidate(baseUrl: string, mailbox: string): void {
+    if (this.entries().delete(this.key(baseUrl, mailbox))) {
+      this.save();
+    }
+  }
+
+  private lookup(baseUrl: string, mailbox: string): CachedToken | undefined {
+    const key = this.key(baseUrl, mailbox);
+    const entry = this.entries().get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expires_at <= Date.now()) {
+      logger.debug(`Cached Hame API token for ${mailbox} expired`);
+      this.entries().delete(key);
+      this.save();
+      return undefined;
+    }
+    return entry;
+  }
+
+  private key(baseUrl: string, mailbox: string): string {
+    return `${baseUrl.replace(/\/$/, "")} ${mailbox}`;
+  }
+
+  private entries(): Map<string, CachedToken> {
+    this.tokens ??= this.load();
+    return this.tokens;
+  }
+
+  private load(): Map<string, CachedToken> {
+    if (!this.path) {
+      return new Map();
+    }
+    let raw: string;
+    try {
+      raw = readFileSync(this.path, "utf8");
+    } catch {
+      return new Map();
+    }
+    try {
+      const content = JSON.parse(raw) as TokenCacheFile;
+      return new Map(
+        Object.entries(content).filter(
+          ([, entry]) =>
+            typeof entry?.token === "string" &&
+            typeof entry.expires_at === "number",
+        ),
+      );
+    } catch (error) {
+      logger.warn(error, `Ignoring unreadable token cache ${this.path}`);
+      return new Map();
+    }
+  }
+
+  private save(): void {
+    if (!this.path || this.readOnly) {
+      return;
+    }
+    const content: TokenCacheFile = Object.fromEntries(this.entries());
+    const tmpPath = `${this.path}.tmp`;
+    try {
+      writeFileSync(tmpPath, JSON.stringify(content, null, 2), {
+        mode: 0o600,
+      });
+      renameSync(tmpPath, this.path);
+    } catch (error) {
+      // Losing the cache only costs an extra login.
+      logger.warn(error, `Failed to write token cache ${this.path}`);
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import { test, describe } from "node:test";
+import assert from "node:assert";
+import { calculateTopicIds } from "./topic_id.js";
+import { BrokerDefinition } from "./types.js";
+
+const brokers: Record<string, BrokerDefinition> = {
+  "hame-2024": {
+    url: "mqtts://example.invalid:8883",
+    ca: "ca",
+    cert: "cert",
+    key: "key",
+    topic_prefix: "hame_energy/",
+  },
+  "hame-2025": {
+    url: "mqtts://example.invalid:8883",
+    ca: "ca",
+    cert: "cert",
+    key: "key",
+    topic_prefix: "marstek_energy/",
+    local_topic_prefix: "hame_energy/",
+    topic_encryption_key: "00112233445566778899aabbccddeeff",
+  },
+};
+
+describe("calculateTopicIds", () => {
+  test("normalizes MAC and type", () => {
+    const report = calculateTopicIds(
+      { type: "hma-1", mac: "AA:BB:CC:DD:EE:FF" },
+      brokers,
+    );
+    assert.strictEqual(report.type, "HMA-1");
+    assert.strictEqual(report.mac, "aabbccddeeff");
+  });
+
+  test("rejects malformed MAC addresses", () => {
+    assert.throws(
+      () => calculateTopicIds({ type: "HMA-1", mac: "aabbcc" }, brokers),
+      /12-character/,
+    );
+  });
+
+  test("lists one candidate per salt and per encryption key", () => {
+    const report = calculateTopicIds(
+      {
+        type: "HMA-1",
+        mac: "aabbccddeeff",
+        version: 230,
+        salt: "abc,def",
+        device_id: "0123456789abcdef01234567",
+      },
+      brokers,
+    );
+    assert.deepStrictEqual(
+      report.candidates.map((c) => [c.method, c.salt_index ?? c.broker_id]),
+      [
+        ["salt-cq", 0],
+        ["salt-cq", 1],
+        ["topic-encryption-key", "hame-2025"],
+        ["device-id", undefined],
+      ],
+    );
+    assert.notStrictEqual(
+      report.candidates[0].remote_id,
+      report.candidates[1].remote_id,
+    );
+    assert.strictEqual(
+      report.candidates[3].remote_id,
+      "0123456789abcdef01234567",
+    );
+  });
+
+  test("selects the broker from the device matrix and reports the chosen method", () => {
+    const report = calculateTopicIds(
+      { type: "HMA-1", mac: "aabbccddeeff", version: 230, salt: "abc,def" },
+      brokers,
+    );
+    assert.strictEqual(report.broker_id, "hame-2025");
+    assert.strictEqual(report.broker_source, "device-matrix");
+    assert.strictEqual(report.selected.method, "salt-cq");
+    assert.strictEqual(
+      report.selected.remote_id,
+      report.candidates[0].remote_id,
+    );
+    assert.strictEqual(
+      report.topics?.remote.device,
+      `marstek_energy/HMA-1/device/${report.selected.remote_id}/ctrl`,
+    );
+    assert.strictEqual(
+      report.topics?.local.device,
+      "hame_energy/HMA-1/device/aabbccddeeff/ctrl",
+    );
+  });
+
+  test("an explicit broker wins over the device matrix", () => {
+    const report = calculateTopicIds(
+      {
+        type: "HMA-1",
+        mac: "aabbccddeeff",
+        version: 230,
+        broker_id: "hame-2024",
+        device_id: "0123456789abcdef01234567",
+      },
+      brokers,
+    );
+    assert.strictEqual(report.broker_id, "hame-2024");
+    assert.strictEqual(report.broker_source, "argument");
+  });
+
+  test("without a version the default broker is used", () => {
+    const report = calculateTopicIds(
+      { type: "HMA-1", mac: "aabbccddeeff" },
+      brokers,
+    );
+    assert.strictEqual(report.broker_id, "hame-2024");
+    assert.strictEqual(report.broker_source, "default");
+    assert.strictEqual(report.version, null);
+  });
+
+  test("leaves the remote id and topics open when the device id is needed but missing", () => {
+    const report = calculateTopicIds(
+      { type: "HMA-1", mac: "aabbccddeeff", version: 100 },
+      brokers,
+    );
+    assert.strictEqual(report.broker_id, "hame-2024");
+    assert.deepStrictEqual(report.selected, {
+      method: "device-id",
+      remote_id: null,
+    });
+    assert.strictEqual(report.topics, undefined);
+    const withId = calculateTopicIds(
+      {
+        type: "HMA-1",
+        mac: "aabbccddeeff",
+        version: 100,
+        device_id: "0123456789abcdef01234567",
+      },
+      brokers,
+    );
+    assert.strictEqual(withId.selected.remote_id, "0123456789abcdef01234567");
+    assert.strictEqual(
+      withId.topics?.remote.app,
+      "hame_energy/HMA-1/App/0123456789abcdef01234567/ctrl",
+    );
+  });
+
+  test("fails for unknown brokers", () => {
+    assert.throws(
+      () =>
+        calculateTopicIds(
+          { type: "HMA-1", mac: "aabbccddeeff", broker_id: "nope" },
+          brokers,
+        ),
+      /Broker 'nope' not defined/,
+    );
+  });
+});
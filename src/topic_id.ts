@@ -0,0 +1,194 @@
+import { parseArgs } from "util";
+import { loadBrokers, resolveConfigPaths } from "./config.js";
+import {
+  brokerForVersion,
+  resolveProfile,
+  supportsVid,
+  usesRemoteTopicId,
+} from "./device_matrix.js";
+import { calculateNewVersionTopicId } from "./encryption.js";
+import {
+  BrokerSide,
+  ctrlTopic,
+  topicStructureFor,
+} from "./forwarding_topics.js";
+import { deriveRemoteId, RemoteIdDerivation, RemoteIdMethod } from "./plan.js";
+import { CommonHelper } from "./topic.js";
+import { BrokerDefinition, Device, DeviceTypeIdentifier } from "./types.js";
+
+export interface TopicIdInput {
+  type: string;
+  mac: string;
+  version?: number;
+  salt?: string;
+  broker_id?: string;
+  device_id?: string;
+}
+
+export interface TopicIdCandidate {
+  method: RemoteIdMethod;
+  /** `null` for `device-id` when no device id was given. */
+  remote_id: string | null;
+  /** Position in the comma-separated salt list (`salt-cq` only). */
+  salt_index?: number;
+  /** Broker whose topic encryption key was used (`topic-encryption-key` only). */
+  broker_id?: string;
+}
+
+export interface TopicIdReport {
+  type: string;
+  mac: string;
+  version: number | null;
+  profile: string;
+  broker_id: string;
+  broker_source: "argument" | "device-matrix" | "default";
+  supports_vid: boolean;
+  uses_remote_topic_id: boolean;
+  /**
+   * What the relay would use, as decided by the device matrix. `remote_id` is
+   * `null` if that is the device id and none was given.
+   */
+  selected: Omit<RemoteIdDerivation, "remote_id"> & {
+    remote_id: string | null;
+  };
+  candidates: TopicIdCandidate[];
+  /** Left out when the selected remote id is unknown. */
+  topics?: Record<BrokerSide, { app: string; device: string }>;
+}
+
+const DEFAULT_BROKER_ID = "hame-2024";
+
+/**
+ * Computes every remote topic id a device could use and the one the relay
+ * would pick, for comparing against what an MQTT client shows.
+ */
+export function calculateTopicIds(
+  input: TopicIdInput,
+  brokers: Record<string, BrokerDefinition>,
+): TopicIdReport {
+  const type = input.type.trim().toUpperCase() as DeviceTypeIdentifier;
+  const mac = input.mac.trim().replace(/:/g, "").toLowerCase();
+  if (!/^[0-9a-f]{12}$/.test(mac)) {
+    throw new Error("MAC address must be a 12-character hexadecimal string");
+  }
+
+  let brokerId = DEFAULT_BROKER_ID;
+  let brokerSource: TopicIdReport["broker_source"] = "default";
+  if (input.broker_id) {
+    brokerId = input.broker_id;
+    brokerSource = "argument";
+  } else if (input.version != null) {
+    brokerId = brokerForVersion(type, input.version);
+    brokerSource = "device-matrix";
+  }
+  const broker = brokers[brokerId];
+  if (!broker) {
+    throw new Error(`Broker '${brokerId}' not defined`);
+  }
+
+  const device: Device = {
+    device_id: input.device_id ?? "",
+    mac,
+    type,
+    version: input.version,
+    salt: input.salt,
+  };
+  const selected = deriveRemoteId(device, broker, brokerId);
+
+  const candidates: TopicIdCandidate[] = [];
+  (input.salt ?? "").split(",").forEach((salt, index) => {
+    if (salt.trim()) {
+      candidates.push({
+        method: "salt-cq",
+        salt_index: index,
+        remote_id: CommonHelper.cq(salt.trim(), mac, type),
+      });
+    }
+  });
+  for (const [id, definition] of Object.entries(brokers)) {
+    if (definition.topic_encryption_key) {
+      candidates.push({
+        method: "topic-encryption-key",
+        broker_id: id,
+        remote_id: calculateNewVersionTopicId(
+          Buffer.from(definition.topic_encryption_key, "hex"),
+          mac,
+        ),
+      });
+    }
+  }
+  candidates.push({ method: "device-id", remote_id: input.device_id ?? null });
+
+  const report: TopicIdReport = {
+    type,
+    mac,
+    version: input.version ?? null,
+    profile: resolveProfile(type).name,
+    broker_id: brokerId,
+    broker_source: brokerSource,
+    supports_vid: supportsVid(type, input.version),
+    uses_remote_topic_id:
+      input.version != null && usesRemoteTopicId(type, input.version),
+    selected,
+    candidates,
+  };
+  if (selected.method === "device-id" && !input.device_id) {
+    report.selected = { ...selected, remote_id: null };
+    return report;
+  }
+
+  const routed: Device = {
+    ...device,
+    remote_id: selected.remote_id,
+    use_remote_topic_id: report.uses_remote_topic_id,
+  };
+  const topicsOn = (side: BrokerSide) => {
+    const structure = topicStructureFor(routed, broker, side);
+    return {
+      app: ctrlTopic(structure, type, "App"),
+      device: ctrlTopic(structure, type, "device"),
+    };
+  };
+
+  report.topics = { local: topicsOn("local"), remote: topicsOn("remote") };
+  return report;
+}
+
+/** `topic-id` command: parses the arguments and prints the report as JSON. */
+export function runTopicId(args: string[]): number {
+  const { values } = parseArgs({
+    args,
+    options: {
+      type: { type: "string" },
+      mac: { type: "string" },
+      version: { type: "string" },
+      salt: { type: "string" },
+      broker: { type: "string" },
+      "device-id": { type: "string" },
+    },
+  });
+  if (!values.type || !values.mac) {
+    throw new Error("--type and --mac are required");
+  }
+  let version: number | undefined;
+  if (values.version !== undefined) {
+    version = parseInt(values.version, 10);
+    if (isNaN(version)) {
+      throw new Error(`Invalid firmware version: ${values.version}`);
+    }
+  }
+  const { brokersPath } = resolveConfigPaths();
+  const report = calculateTopicIds(
+    {
+      type: values.type,
+      mac: values.mac,
+      version,
+      salt: values.salt,
+      broker_id: values.broker,
+      device_id: values["device-id"],
+    },
+    loadBrokers(brokersPath),
+  );
+  console.log(JSON.stringify(report, null, 2));
+  return 0;
+}
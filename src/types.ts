@@ -55,6 +55,14 @@ export interface Device {
   remote_id?: string;
   use_remote_topic_id?: boolean;
   salt?: string; // Comma-separated salt values from device list
+  account?: string; // Hame account the device was fetched from
+  sn?: string; // Serial number reported by the Hame API
+  bluetooth_name?: string; // Bluetooth advertising name, e.g. for pairing
+  access?: string; // Access level of the account: "1" if it owns the device, any other value if the device is shared with it
+  forward_telemetry?: boolean; // Forward unsolicited device messages to the cloud
+  poll_interval_seconds?: number; // Request the device status this often (0 disables)
+  poll_payload?: string; // Status request sent when polling
+  read_only?: boolean; // Only relay status requests from the cloud to the device
 }
 
 export interface BrokerDefinition {
@@ -66,24 +74,92 @@ export interface BrokerDefinition {
   local_topic_prefix?: string;
   topic_encryption_key?: string;
   client_id_prefix?: string;
+  protocol_version?: MqttProtocolVersion;
 }
 
+/** MQTT protocol level: 3 (3.1), 4 (3.1.1) or 5 (5.0). */
+export type MqttProtocolVersion = 3 | 4 | 5;
+
 export interface ForwarderConfig {
   broker_url: string;
+  broker_protocol_version?: MqttProtocolVersion;
   devices: Device[];
   inverse_forwarding?: boolean;
+  read_only?: boolean;
   username?: string;
   password?: string;
   remote: BrokerDefinition;
   broker_id: string;
+  message_history_max_entries?: number;
+  telemetry_interval_seconds?: number;
+  poll_interval_seconds?: number;
+  poll_payload?: string;
+  command_rules?: CommandRule[];
+  rate_limit?: RateLimitsConfig;
+}
+
+export interface HameAccount {
+  username: string;
+  password?: string;
+  password_md5?: string; // MD5 hash of the password, instead of `password`
+}
+
+/** Retry policy for Hame API requests; unset fields keep their defaults. */
+export interface ApiRetryConfig {
+  max_retries?: number;
+  base_delay_ms?: number;
+  max_delay_ms?: number; // Also the longest Retry-After the relay waits for
+  backoff_multiplier?: number;
+  jitter?: number; // Fraction (0-1) of each delay that is randomized
+}
+
+/**
+ * Firewall rule for App commands from the cloud. Every condition that is set
+ * must match; a rule without conditions matches every command.
+ */
+export interface CommandRule {
+  device_types?: string[]; // Device types or families, matched by prefix ("HMA" covers HMA-1)
+  commands?: (string | number)[]; // Command codes (cd= values)
+  keys?: string[]; // Payload keys, any of which must be present
+  action: "allow" | "deny" | "log";
+}
+
+/** Token bucket for the messages forwarded for one device in one direction. */
+export interface RateLimitConfig {
+  messages_per_second: number; // Sustained rate
+  burst?: number; // Messages that may be sent at once, 10 if unset
+  max_delay_ms?: number; // Longest a message is held back before it is dropped instead, 2000 if unset
+}
+
+/** Per-device rate limits by forwarding direction; unset directions are unlimited. */
+export interface RateLimitsConfig {
+  local_to_remote?: RateLimitConfig;
+  remote_to_local?: RateLimitConfig;
 }
 
 export interface MainConfig {
   broker_url: string;
-  devices?: Device[]; // Now optional since devices are fetched from API
+  broker_protocol_version?: MqttProtocolVersion; // MQTT protocol of the local broker; defaults to 4 (3.1.1)
+  devices?: Device[]; // Extra devices and per-device overrides, merged into the devices fetched from the API
   inverse_forwarding?: boolean;
-  username: string; // Now required
-  password: string; // Now required
+  username?: string; // Omit together with password for manual mode (devices only from config)
+  password?: string;
+  password_md5?: string; // MD5 hash of the password; the API only receives the hash
+  accounts?: HameAccount[]; // Additional Hame accounts to fetch devices from
   default_broker_id?: string;
+  api_region?: string; // Hame API region, e.g. "eu" for https://eu.hamedata.com
+  api_base_url?: string; // Hame API base URL; takes precedence over api_region
+  api_fallback_urls?: string[]; // Endpoints tried in order when the primary one fails
+  api_retry?: ApiRetryConfig;
+  api_request_timeout_ms?: number; // Per-request timeout for Hame API calls
   inverse_forwarding_device_ids?: string; // Comma-separated list of device IDs for selective inverse forwarding
+  device_refresh_interval_minutes?: number; // How often the device list is re-fetched from the Hame API (0 disables)
+  message_history_max_entries?: number; // Cap for each forwarder's message history maps
+  forward_telemetry?: boolean | string[]; // Forward unsolicited device messages to the cloud: all devices, or device types/families by prefix
+  telemetry_interval_seconds?: number; // Minimum interval between unsolicited messages forwarded per device
+  poll_interval_seconds?: number; // Default interval for polling device status (0 or unset disables)
+  poll_payload?: string; // Default status request payload, "cd=1" if unset
+  command_rules?: CommandRule[]; // Allow, deny or log App commands from the cloud, first match wins
+  read_only?: boolean; // Only relay status requests from the cloud, drop setting changes
+  rate_limit?: RateLimitsConfig; // Per-device limits for forwarded messages
 }